@@ -1,7 +1,16 @@
-import { useState, useEffect } from 'react';
-import CSVDataTable from './components/CSVDataTable';
+import { useState, useEffect, useRef } from 'react';
+import DatasetTab from './components/DatasetTab';
 import FileUpload from './components/FileUpload';
-import { CSVRow } from './types/csv';
+import JoinDialog from './components/JoinDialog';
+import SessionRestore from './components/SessionRestore';
+import WorkspaceTabs from './components/WorkspaceTabs';
+import { createHistory } from './hooks/useHistory';
+import { CSVRow, DatasetState } from './types/csv';
+import { RecentFile } from './types/session';
+import { Notification, OpenDataset, WorkspaceTab } from './types/workspace';
+import { applySchema, inferSchema } from './utils/columnTypes';
+import { withRowIds } from './utils/rowIds';
+import { createSessionId, deleteSession, listRecentFiles, loadSession } from './utils/sessionStore';
 
 const features = [
   {
@@ -11,7 +20,7 @@ const features = [
       </svg>
     ),
     title: 'Inline Editing',
-    description: 'Edit cells directly in the table with double-click. Changes are tracked and can be saved.',
+    description: 'Navigate with the keyboard, edit with double-click or F2, and paste blocks from any spreadsheet.',
   },
   {
     icon: (
@@ -28,8 +37,8 @@ const features = [
         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
       </svg>
     ),
-    title: 'Export to CSV',
-    description: 'Download your edited data as a properly formatted CSV file with one click.',
+    title: 'Export Anywhere',
+    description: 'Download the full dataset or the current view as CSV, TSV, JSON, NDJSON or Excel.',
   },
   {
     icon: (
@@ -61,134 +70,146 @@ const features = [
 ];
 
 function App() {
-  const [data, setData] = useState<CSVRow[]>([]);
-  const [headers, setHeaders] = useState<string[]>([]);
-  const [notification, setNotification] = useState<{
-    message: string;
-    severity: 'success' | 'error' | 'info' | 'warning';
-  } | null>(null);
-  const [showSaveDialog, setShowSaveDialog] = useState(false);
-  const [isSaving, setIsSaving] = useState(false);
-  const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  // Every open file stays mounted in its own tab, so switching tabs keeps its
+  // history, sort, filter and grouping.
+  const [tabs, setTabs] = useState<WorkspaceTab[]>([]);
+  const openSessionIds = tabs.map(tab => tab.session.id);
+  const [activeTabId, setActiveTabId] = useState<string | null>(null);
+  const [dirtyTabIds, setDirtyTabIds] = useState<string[]>([]);
+  const tabStatesRef = useRef<Record<string, DatasetState>>({});
+  const [joinSources, setJoinSources] = useState<OpenDataset[] | null>(null);
+  const [notification, setNotification] = useState<Notification | null>(null);
+  const [recentFiles, setRecentFiles] = useState<RecentFile[]>([]);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const hasUnsavedChanges = dirtyTabIds.length > 0;
 
-  const handleDataLoad = (newData: CSVRow[], newHeaders: string[]) => {
-    setData(newData);
-    setHeaders(newHeaders);
+  const refreshRecentFiles = () => {
+    // Without IndexedDB (e.g. some private windows) there is nothing to restore.
+    listRecentFiles().then(setRecentFiles).catch(() => setRecentFiles([]));
+  };
+
+  useEffect(refreshRecentFiles, []);
+
+  useEffect(() => {
+    if (!hasUnsavedChanges) return;
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [hasUnsavedChanges]);
+
+  const openTab = (tab: WorkspaceTab) => {
+    setTabs(prev => [...prev, tab]);
+    setActiveTabId(tab.session.id);
+  };
+
+  const handleDataLoad = (newData: CSVRow[], newHeaders: string[], fileName: string) => {
+    const inferredSchema = inferSchema(newData, newHeaders);
+    openTab({
+      session: { id: createSessionId(), fileName, openedAt: Date.now() },
+      initialHistory: createHistory('Load file', {
+        data: withRowIds(applySchema(newData, newHeaders, inferredSchema)),
+        headers: newHeaders,
+        schema: inferredSchema,
+      }),
+    });
     setNotification({
       message: `Successfully loaded ${newData.length} rows of data`,
       severity: 'success',
     });
   };
 
-  const handleDataUpdate = (updatedData: CSVRow[]) => {
-    setData(updatedData);
-    setHasUnsavedChanges(true);
+  const getOpenDatasets = (): OpenDataset[] =>
+    tabs.map(tab => ({
+      id: tab.session.id,
+      fileName: tab.session.fileName,
+      state: tabStatesRef.current[tab.session.id],
+    }));
+
+  const handleJoin = (state: DatasetState, fileName: string) => {
+    setJoinSources(null);
+    openTab({
+      session: { id: createSessionId(), fileName, openedAt: Date.now() },
+      initialHistory: createHistory('Join files', { ...state, data: withRowIds(state.data) }),
+    });
     setNotification({
-      message: 'Data updated successfully',
+      message: `Joined into ${fileName} with ${state.data.length} rows`,
       severity: 'success',
     });
   };
 
-  const handleSave = () => {
-    setShowSaveDialog(true);
-  };
-
-  const confirmSave = async () => {
-    setIsSaving(true);
-    setShowSaveDialog(false);
-
+  const handleRestoreSession = async (file: RecentFile) => {
+    if (tabs.some(tab => tab.session.id === file.id)) {
+      setActiveTabId(file.id);
+      return;
+    }
+    setIsRestoring(true);
     try {
-      if (data.length === 0) {
-        throw new Error('No data to save');
+      const snapshot = await loadSession(file.id);
+      if (!snapshot) {
+        throw new Error('The stored session could not be found');
       }
-
-      const hasEmptyRequiredFields = data.some(row =>
-        headers.some(header => {
-          const value = row[header];
-          return value === undefined || value === null || String(value).trim() === '';
-        })
-      );
-
-      if (hasEmptyRequiredFields) {
-        setNotification({
-          message: 'Warning: Some cells are empty. Consider filling them before saving.',
-          severity: 'warning',
-        });
-      }
-
-      await new Promise(resolve => setTimeout(resolve, 1000));
-
-      const csvContent = convertToCSV(data, headers);
-      const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `updated_data_${new Date().toISOString().split('T')[0]}.csv`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      window.URL.revokeObjectURL(url);
-
+      // New rows must not reuse IDs from any restored snapshot.
+      snapshot.entries.forEach(entry => withRowIds(entry.state.data));
+      openTab({
+        session: { id: file.id, fileName: file.fileName, openedAt: file.openedAt },
+        initialHistory: snapshot,
+      });
       setNotification({
-        message: `Successfully saved ${data.length} rows to CSV file!`,
+        message: `Restored ${file.fileName} with ${snapshot.entries.length} history states`,
         severity: 'success',
       });
-      setHasUnsavedChanges(false);
-
     } catch (error) {
-      console.error('Save error:', error);
       setNotification({
-        message: `Failed to save data: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        message: `Failed to restore session: ${error instanceof Error ? error.message : 'Unknown error'}`,
         severity: 'error',
       });
+      refreshRecentFiles();
     } finally {
-      setIsSaving(false);
+      setIsRestoring(false);
     }
   };
 
-  const cancelSave = () => {
-    setShowSaveDialog(false);
-  };
-
-  const convertToCSV = (data: CSVRow[], headers: string[]): string => {
-    if (data.length === 0) {
-      return headers.join(',');
+  const handleDeleteRecentFile = async (file: RecentFile) => {
+    try {
+      await deleteSession(file.id);
+      setRecentFiles(prev => prev.filter(recent => recent.id !== file.id));
+    } catch (error) {
+      setNotification({
+        message: `Failed to remove ${file.fileName}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        severity: 'error',
+      });
     }
+  };
 
-    const csvHeaders = headers.join(',');
-    const csvRows = data.map(row =>
-      headers.map(header => {
-        const value = row[header] || '';
-        const stringValue = String(value);
-
-        if (stringValue.includes(',') || stringValue.includes('"') || stringValue.includes('\n') || stringValue.includes('\r')) {
-          return `"${stringValue.replace(/"/g, '""')}"`;
-        }
-        return stringValue;
-      }).join(',')
-    );
+  const handleDirtyChange = (id: string, isDirty: boolean) => {
+    setDirtyTabIds(prev => {
+      const others = prev.filter(dirtyId => dirtyId !== id);
+      return isDirty ? [...others, id] : others;
+    });
+  };
 
-    return [csvHeaders, ...csvRows].join('\n');
+  const handleCloseTab = (id: string) => {
+    const index = tabs.findIndex(tab => tab.session.id === id);
+    const remaining = tabs.filter(tab => tab.session.id !== id);
+    setTabs(remaining);
+    setDirtyTabIds(prev => prev.filter(dirtyId => dirtyId !== id));
+    delete tabStatesRef.current[id];
+    if (activeTabId === id) {
+      // Focus the neighbour that slides into the closed tab's place.
+      setActiveTabId(remaining[Math.min(index, remaining.length - 1)]?.session.id ?? null);
+    }
+    if (remaining.length === 0) {
+      refreshRecentFiles();
+    }
   };
 
   const handleCloseNotification = () => {
     setNotification(null);
   };
 
-  useEffect(() => {
-    const handleKeyDown = (event: KeyboardEvent) => {
-      if ((event.ctrlKey || event.metaKey) && event.key === 's') {
-        event.preventDefault();
-        if (data.length > 0 && !isSaving) {
-          handleSave();
-        }
-      }
-    };
-
-    document.addEventListener('keydown', handleKeyDown);
-    return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [data.length, isSaving]);
-
   const severityStyles = {
     success: 'bg-green-50 border-green-200 text-green-800',
     error: 'bg-red-50 border-red-200 text-red-800',
@@ -213,26 +234,57 @@ function App() {
           </p>
         </div>
 
+        {/* Session Restore Section */}
+        {tabs.length === 0 && recentFiles.length > 0 && (
+          <section aria-label="Restore session" className="card p-6 mb-6">
+            <SessionRestore
+              recentFiles={recentFiles}
+              isRestoring={isRestoring}
+              onRestore={handleRestoreSession}
+              onDelete={handleDeleteRecentFile}
+            />
+          </section>
+        )}
+
         {/* File Upload Section */}
         <section aria-label="File upload" className="card p-6 mb-6">
           <FileUpload onDataLoad={handleDataLoad} />
         </section>
 
-        {/* Data Table Section */}
-        {data.length > 0 && (
-          <section aria-label="Data table" className="card p-6 mb-6">
-            <CSVDataTable
-              data={data}
-              headers={headers}
-              onDataUpdate={handleDataUpdate}
-              onSave={handleSave}
-              hasUnsavedChanges={hasUnsavedChanges}
-            />
+        {/* Workspace Section */}
+        {tabs.length > 0 && (
+          <section aria-label="Workspace" className="card p-6 mb-6">
+            <WorkspaceTabs
+              sessions={tabs.map(tab => tab.session)}
+              activeId={activeTabId}
+              dirtyIds={dirtyTabIds}
+              onSelect={setActiveTabId}
+              onClose={handleCloseTab}
+            >
+              {tabs.length > 1 && (
+                <button onClick={() => setJoinSources(getOpenDatasets())} className="btn btn-secondary text-sm">
+                  Join Files
+                </button>
+              )}
+            </WorkspaceTabs>
+            {tabs.map(tab => (
+              <div key={tab.session.id} role="tabpanel" hidden={tab.session.id !== activeTabId}>
+                <DatasetTab
+                  session={tab.session}
+                  openSessionIds={openSessionIds}
+                  initialHistory={tab.initialHistory}
+                  isActive={tab.session.id === activeTabId}
+                  onDirtyChange={(isDirty) => handleDirtyChange(tab.session.id, isDirty)}
+                  onStateChange={(state) => { tabStatesRef.current[tab.session.id] = state; }}
+                  onNotify={setNotification}
+                />
+              </div>
+            ))}
           </section>
         )}
 
         {/* Features Section */}
-        {data.length === 0 && (
+        {tabs.length === 0 && (
           <section aria-label="Features" className="mt-16">
             <h2 className="text-2xl sm:text-3xl font-bold text-center text-gray-900 mb-10">
               Everything you need to manage CSV data
@@ -266,50 +318,13 @@ function App() {
         </footer>
       </div>
 
-      {/* Save Confirmation Dialog */}
-      {showSaveDialog && (
-        <div className="fixed inset-0 z-50 overflow-y-auto">
-          <div className="flex min-h-full items-center justify-center p-4">
-            <div className="fixed inset-0 bg-black/30 backdrop-blur-sm" onClick={cancelSave} />
-            <div className="relative bg-white rounded-xl shadow-xl max-w-md w-full p-6">
-              <h2 className="text-xl font-semibold text-gray-900 mb-4">Save Data to CSV</h2>
-              <div className="space-y-2 mb-6">
-                <h3 className="font-medium text-gray-900">Save Summary</h3>
-                <ul className="text-gray-600 text-sm space-y-1">
-                  <li>• Total rows: {data.length}</li>
-                  <li>• Columns: {headers.length} ({headers.join(', ')})</li>
-                  <li>• File format: CSV (Comma Separated Values)</li>
-                  <li>• Encoding: UTF-8</li>
-                </ul>
-                <p className="text-gray-500 text-sm mt-4">
-                  This will download a file named "updated_data_YYYY-MM-DD.csv" to your computer.
-                </p>
-              </div>
-              <div className="flex justify-end gap-3">
-                <button
-                  onClick={cancelSave}
-                  disabled={isSaving}
-                  className="btn btn-secondary"
-                >
-                  Cancel
-                </button>
-                <button
-                  onClick={confirmSave}
-                  disabled={isSaving}
-                  className="btn btn-primary flex items-center gap-2"
-                >
-                  {isSaving && (
-                    <svg className="animate-spin h-4 w-4" fill="none" viewBox="0 0 24 24">
-                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
-                    </svg>
-                  )}
-                  {isSaving ? 'Saving...' : 'Save'}
-                </button>
-              </div>
-            </div>
-          </div>
-        </div>
+      {/* Join Dialog */}
+      {joinSources && (
+        <JoinDialog
+          datasets={joinSources}
+          onConfirm={handleJoin}
+          onCancel={() => setJoinSources(null)}
+        />
       )}
 
       {/* Notification Toast */}
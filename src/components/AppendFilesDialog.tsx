@@ -0,0 +1,276 @@
+import { useEffect, useRef, useState } from 'react';
+import ParseDiagnostics from './ParseDiagnostics';
+import { AppendSource } from '../types/append';
+import { ColumnSchema } from '../types/csv';
+import { ImportOptions, ParsedCSV } from '../types/parser';
+import { createColumnMapping, DEFAULT_SOURCE_COLUMN, getMappingError, getNewColumns, getSourceColumnError } from '../utils/append';
+import { detectImportOptions, isSupportedFile, SUPPORTED_EXTENSIONS } from '../utils/importOptions';
+import { parseCsvInWorker } from '../utils/parseCsvInWorker';
+
+interface AppendFilesDialogProps {
+  headers: string[];
+  schema: ColumnSchema;
+  onAppend: (sources: AppendSource[], sourceColumn: string | null) => void;
+  onCancel: () => void;
+}
+
+interface ParsedFile {
+  result: ParsedCSV;
+  options: ImportOptions;
+}
+
+// A file whose parse issues are shown for the user to fix, skip or accept.
+interface PendingReview extends ParsedFile {
+  fileName: string;
+}
+
+const AppendFilesDialog: React.FC<AppendFilesDialogProps> = ({ headers, schema, onAppend, onCancel }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const cancelParseRef = useRef<(() => void) | null>(null);
+  const finishReviewRef = useRef<((rows: Pick<ParsedCSV, 'data' | 'fields'> | null) => void) | null>(null);
+  const isMountedRef = useRef(true);
+  const [sources, setSources] = useState<AppendSource[]>([]);
+  const [readingFile, setReadingFile] = useState<string | null>(null);
+  const [review, setReview] = useState<PendingReview | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [addSourceColumn, setAddSourceColumn] = useState(false);
+  const [sourceColumn, setSourceColumn] = useState(DEFAULT_SOURCE_COLUMN);
+
+  // Closing the dialog stops the parse or review in progress, which settles
+  // its promise so handleFileSelect can stop.
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+      cancelParseRef.current?.();
+      finishReviewRef.current?.(null);
+    };
+  }, []);
+
+  // Computed columns derive their values, so nothing is appended to them.
+  const targetColumns = headers.filter(header => schema[header]?.formula === undefined);
+
+  const parseFile = async (file: File): Promise<ParsedFile> => {
+    const options = await detectImportOptions(file);
+    if (!isMountedRef.current) {
+      throw new Error('Cancelled');
+    }
+    return new Promise((resolve, reject) => {
+      const cancel = parseCsvInWorker(file, { importOptions: options }, {
+        onComplete: (result) => resolve({ result, options }),
+        onError: (message) => reject(new Error(message)),
+      });
+      cancelParseRef.current = () => {
+        cancel();
+        reject(new Error('Cancelled'));
+      };
+    });
+  };
+
+  // Resolves with the rows to append, or null when the file is skipped.
+  const reviewIssues = (fileName: string, parsed: ParsedFile) =>
+    new Promise<Pick<ParsedCSV, 'data' | 'fields'> | null>(resolve => {
+      finishReviewRef.current = (rows) => {
+        finishReviewRef.current = null;
+        setReview(null);
+        resolve(rows);
+      };
+      setReview({ fileName, ...parsed });
+    });
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    const failures: string[] = [];
+    for (const file of files) {
+      if (!isSupportedFile(file)) {
+        failures.push(`${file.name}: not a CSV, TSV or TXT file`);
+        continue;
+      }
+      setReadingFile(file.name);
+      try {
+        const parsed = await parseFile(file);
+        cancelParseRef.current = null;
+        const rows = parsed.result.errors.length > 0 ? await reviewIssues(file.name, parsed) : parsed.result;
+        if (!isMountedRef.current) return;
+        if (rows === null) {
+          failures.push(`${file.name}: skipped`);
+          continue;
+        }
+        if (rows.data.length === 0) {
+          failures.push(`${file.name}: no rows to append`);
+          continue;
+        }
+        setSources(prev => [...prev, {
+          fileName: file.name,
+          headers: rows.fields,
+          data: rows.data,
+          mapping: createColumnMapping(rows.fields, targetColumns, headers),
+        }]);
+      } catch (error) {
+        if (!isMountedRef.current) return;
+        failures.push(`${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      } finally {
+        cancelParseRef.current = null;
+      }
+    }
+    setReadingFile(null);
+    setErrors(failures);
+  };
+
+  const updateMapping = (index: number, column: string, target: string | null) => {
+    setSources(prev => prev.map((source, i) => (
+      i === index ? { ...source, mapping: { ...source.mapping, [column]: target } } : source
+    )));
+  };
+
+  const removeSource = (index: number) => {
+    setSources(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const sourceColumnName = addSourceColumn ? sourceColumn.trim() : null;
+  const mappingError = sources.map(getMappingError).find(error => error !== null)
+    ?? getSourceColumnError(headers, sources, sourceColumnName);
+  const newColumns = getNewColumns(headers, sources, sourceColumnName);
+  const rowCount = sources.reduce((sum, source) => sum + source.data.length, 0);
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="fixed inset-0 bg-black/30 backdrop-blur-sm" onClick={onCancel} />
+        <div className="relative bg-white rounded-xl shadow-xl max-w-3xl w-full p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Append Files</h2>
+
+          <div className="space-y-4 mb-6">
+            <div className="flex items-center gap-3">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={SUPPORTED_EXTENSIONS.join(',')}
+                multiple
+                onChange={handleFileSelect}
+                className="hidden"
+              />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={readingFile !== null}
+                className="btn btn-secondary"
+              >
+                Choose Files
+              </button>
+              <span className="text-sm text-gray-500">
+                {readingFile ? `Reading ${readingFile}...` : 'Columns are matched by name; adjust any that differ.'}
+              </span>
+            </div>
+
+            {review && (
+              <ParseDiagnostics
+                fileName={review.fileName}
+                result={review.result}
+                options={review.options}
+                onImport={(data, fields) => finishReviewRef.current?.({ data, fields })}
+                onCancel={() => finishReviewRef.current?.(null)}
+              />
+            )}
+
+            {errors.length > 0 && (
+              <ul className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-3 space-y-1">
+                {errors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            )}
+
+            {sources.map((source, index) => {
+              const mapped = Object.values(source.mapping);
+              const missing = targetColumns.filter(column => !mapped.includes(column));
+              return (
+                <div key={`${source.fileName}-${index}`} className="border border-gray-200 rounded-lg p-3">
+                  <div className="flex justify-between items-center mb-2">
+                    <h3 className="font-medium text-gray-900">
+                      {source.fileName}{' '}
+                      <span className="text-sm font-normal text-gray-500">({source.data.length} rows)</span>
+                    </h3>
+                    <button onClick={() => removeSource(index)} className="text-sm text-red-600 hover:underline">
+                      Remove
+                    </button>
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1">
+                    {source.headers.map(column => {
+                      const target = source.mapping[column];
+                      const isNew = target !== null && !headers.includes(target);
+                      return (
+                        <label key={column} className="flex items-center gap-2 text-sm">
+                          <span className="w-1/2 truncate text-gray-700" title={column}>{column}</span>
+                          <span className="text-gray-400">→</span>
+                          <select
+                            value={target ?? ''}
+                            onChange={(e) => updateMapping(index, column, e.target.value === '' ? null : e.target.value)}
+                            className={`input text-sm py-1 flex-1 min-w-0 ${isNew ? 'border-primary-400' : target === null ? 'border-amber-400' : ''}`}
+                          >
+                            {targetColumns.map(header => (
+                              <option key={header} value={header}>{header}</option>
+                            ))}
+                            {!headers.includes(column) && (
+                              <option value={column}>New column "{column}"</option>
+                            )}
+                            <option value="">Skip</option>
+                          </select>
+                        </label>
+                      );
+                    })}
+                  </div>
+                  {missing.length > 0 && (
+                    <p className="text-xs text-gray-500 mt-2">Left blank: {missing.join(', ')}</p>
+                  )}
+                </div>
+              );
+            })}
+
+            <div className="flex flex-wrap items-center gap-2">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={addSourceColumn}
+                  onChange={(e) => setAddSourceColumn(e.target.checked)}
+                  className="w-4 h-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                <span className="text-sm text-gray-700">Record each row's file in a column named</span>
+              </label>
+              <input
+                type="text"
+                value={sourceColumn}
+                onChange={(e) => setSourceColumn(e.target.value)}
+                disabled={!addSourceColumn}
+                className="input text-sm w-40"
+              />
+            </div>
+
+            {mappingError && (
+              <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-3">{mappingError}</p>
+            )}
+            {sources.length > 0 && (
+              <ul className="text-gray-600 text-sm space-y-1">
+                <li>• Rows to append: {rowCount} from {sources.length} {sources.length === 1 ? 'file' : 'files'}</li>
+                {newColumns.length > 0 && <li>• New columns: {newColumns.join(', ')}</li>}
+              </ul>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <button onClick={onCancel} className="btn btn-secondary">
+              Cancel
+            </button>
+            <button
+              onClick={() => onAppend(sources, sourceColumnName)}
+              disabled={sources.length === 0 || mappingError !== null || readingFile !== null || review !== null}
+              className="btn btn-primary"
+            >
+              Append {rowCount > 0 && `${rowCount} Rows`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AppendFilesDialog;
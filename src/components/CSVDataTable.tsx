@@ -1,160 +1,476 @@
-import { useMemo, useState, useEffect } from 'react';
-import { CSVRow } from '../types/csv';
+import { useMemo, useRef, useState, useEffect } from 'react';
+import AppendFilesDialog from './AppendFilesDialog';
+import ColumnProfilePanel from './ColumnProfilePanel';
+import ColumnSettingsPanel from './ColumnSettingsPanel';
+import DedupeDialog from './DedupeDialog';
+import FilterBuilder from './FilterBuilder';
+import FindReplaceDialog from './FindReplaceDialog';
+import GroupByControls from './GroupByControls';
+import HistoryPanel from './HistoryPanel';
+import PivotView from './PivotView';
+import RowSelectionBar from './RowSelectionBar';
+import ValidationPanel from './ValidationPanel';
+import { useColumnValueCounts, useIncrementalView, useRowPositions } from '../hooks/useDataIndex';
+import { useSavedViews } from '../hooks/useSavedViews';
+import { AggregateFunction, ColumnAggregates } from '../types/aggregation';
+import { AppendSource } from '../types/append';
+import { CellValue, ColumnSchema, ColumnType, CSVRow, DatasetState, HistoryEntry, ValidationIndex, ValidationIssue } from '../types/csv';
+import { ExportScope } from '../types/export';
+import { FilterGroup, SavedView } from '../types/filter';
+import { FindReplaceOptions, ReplaceMatch } from '../types/findReplace';
+import { PivotConfig, PivotTable } from '../types/pivot';
+import { EmptyPlacement, SortKey } from '../types/sort';
+import { addColumn, deleteColumn, moveColumn, renameColumn, setColumnHidden } from '../utils/columnOps';
+import { addComputedColumn, freezeColumn, setColumnFormula } from '../utils/computedColumns';
+import { AGGREGATE_FUNCTIONS, computeAggregates, formatAggregate } from '../utils/aggregation';
+import { appendSources } from '../utils/append';
+import { applyPaste, parseTSV, toTSV } from '../utils/clipboard';
+import { parseValue } from '../utils/columnTypes';
+import {
+  cloneFilter,
+  compileFilter,
+  countActiveConditions,
+  createFilterGroup,
+  getFilterColumns,
+  pruneFilterColumns,
+  renameFilterColumn,
+} from '../utils/filters';
+import { applyReplacements } from '../utils/findReplace';
+import { buildGroupedRows, GroupedItem, isGroupHeader, isGroupItem, isGroupSummary } from '../utils/grouping';
+import { createPivotConfig, getPivotColumns, prunePivotColumns, renamePivotColumn } from '../utils/pivot';
+import { createRowComparator, toggleSortKey } from '../utils/sorting';
+import { getCellIssues, listIssues } from '../utils/validation';
+import { createRowId, getRowId, ROW_ID_KEY } from '../utils/rowIds';
+import { deleteRows, duplicateRows, getRowIdRange, setColumnValue } from '../utils/rowOps';
 
 interface CSVDataTableProps {
+  fileName: string;
   data: CSVRow[];
   headers: string[];
-  onDataUpdate: (data: CSVRow[]) => void;
-  onSave: () => void;
+  schema: ColumnSchema;
+  validation: ValidationIndex;
+  onDataUpdate: (data: CSVRow[], description?: string) => void;
+  onRowUpdate: (position: number, row: CSVRow, description: string) => void;
+  onSchemaChange: (schema: ColumnSchema) => void;
+  onColumnsChange: (state: DatasetState, description: string) => void;
+  onSave: (scope?: ExportScope) => void;
   hasUnsavedChanges?: boolean;
+  historyEntries: HistoryEntry[];
+  historyIndex: number;
+  onUndo: () => void;
+  onRedo: () => void;
+  onHistoryJump: (index: number) => void;
+  onViewChange?: (rows: CSVRow[]) => void;
+  onPivotChange?: (table: PivotTable | null) => void;
+  onSelectionChange?: (rows: CSVRow[]) => void;
 }
 
-type SortDirection = 'asc' | 'desc';
+// Continuous scroll renders only the rows in view, assuming a fixed row height.
+const ROW_HEIGHT = 41;
+const VIEWPORT_HEIGHT = 600;
+const OVERSCAN_ROWS = 10;
+
+// Frozen columns get a fixed width so each sticky offset is known up front.
+const FROZEN_COLUMN_WIDTH = 160;
+const MAX_FROZEN_COLUMNS = 5;
+const SELECT_COLUMN_WIDTH = 40;
+const RANGE_BACKGROUND = '#dbeafe';
+
+interface CellPosition {
+  rowId: number;
+  column: string;
+}
 
 const CSVDataTable: React.FC<CSVDataTableProps> = ({
+  fileName,
   data,
   headers,
+  schema,
+  validation,
   onDataUpdate,
+  onRowUpdate,
+  onSchemaChange,
+  onColumnsChange,
   onSave,
   hasUnsavedChanges = false,
+  historyEntries,
+  historyIndex,
+  onUndo,
+  onRedo,
+  onHistoryJump,
+  onViewChange,
+  onPivotChange,
+  onSelectionChange,
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
-  const [sortColumn, setSortColumn] = useState<string>('');
-  const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
+  const [sortKeys, setSortKeys] = useState<SortKey[]>([]);
+  const [emptyPlacement, setEmptyPlacement] = useState<EmptyPlacement>('first');
   const [editingCell, setEditingCell] = useState<{
-    rowIndex: number;
+    rowId: number;
     columnKey: string;
   } | null>(null);
   const [editValue, setEditValue] = useState<string>('');
+  const [editError, setEditError] = useState<string | null>(null);
   const [page, setPage] = useState(0);
   const [rowsPerPage, setRowsPerPage] = useState(10);
-  const [groupByColumn, setGroupByColumn] = useState<string>('');
+  const [groupByColumns, setGroupByColumns] = useState<string[]>([]);
   const [enableHighlighting, setEnableHighlighting] = useState(true);
   const [showGroupHeaders, setShowGroupHeaders] = useState(false);
-  const [filters, setFilters] = useState<Record<string, string>>({});
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
+  const [aggregateColumns, setAggregateColumns] = useState<string[]>([]);
+  const [aggregateFunctions, setAggregateFunctions] = useState<AggregateFunction[]>(['sum', 'avg']);
+  const [filter, setFilter] = useState<FilterGroup>(() => createFilterGroup());
   const [showFilters, setShowFilters] = useState(false);
+  const [viewMode, setViewMode] = useState<'grid' | 'pivot'>('grid');
+  const [pivotConfig, setPivotConfig] = useState<PivotConfig>(() => createPivotConfig());
+  const [continuousScroll, setContinuousScroll] = useState(false);
+  const [scrollTop, setScrollTop] = useState(0);
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  // Set when an edit ends from the keyboard, so navigation can continue.
+  const refocusGrid = useRef(false);
+  const [showColumnSettings, setShowColumnSettings] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showValidation, setShowValidation] = useState(false);
+  const [showProfile, setShowProfile] = useState(false);
+  const [showFindReplace, setShowFindReplace] = useState(false);
+  const [showAppend, setShowAppend] = useState(false);
+  const [showDedupe, setShowDedupe] = useState(false);
+  const [jumpTarget, setJumpTarget] = useState<ValidationIssue | null>(null);
+  const [highlightedCell, setHighlightedCell] = useState<CellPosition | null>(null);
+  const [activeCell, setActiveCell] = useState<CellPosition | null>(null);
+  const [rangeAnchor, setRangeAnchor] = useState<CellPosition | null>(null);
+  const [frozenCount, setFrozenCount] = useState(0);
+  const [draggedColumn, setDraggedColumn] = useState<string | null>(null);
+  const [dropTargetColumn, setDropTargetColumn] = useState<string | null>(null);
+  const [selectedRowIds, setSelectedRowIds] = useState<Set<number>>(new Set());
+  const [selectionAnchor, setSelectionAnchor] = useState<number | null>(null);
 
-  const columnValues = useMemo(() => {
-    const values: Record<string, Set<string>> = {};
-    headers.forEach(header => {
-      values[header] = new Set();
-      data.forEach(row => {
-        const value = String(row[header] || '').trim();
-        if (value) {
-          values[header].add(value);
-        }
-      });
-    });
-    return values;
-  }, [data, headers]);
-
-  const filteredAndSortedData = useMemo(() => {
-    let filtered = data.filter((row) => {
-      const matchesSearch = searchTerm === '' ||
-        Object.values(row).some((value) =>
-          String(value).toLowerCase().includes(searchTerm.toLowerCase())
-        );
+  const visibleHeaders = useMemo(
+    () => headers.filter(header => !schema[header]?.hidden),
+    [headers, schema]
+  );
+  const hiddenCount = headers.length - visibleHeaders.length;
 
-      const matchesFilters = Object.entries(filters).every(([column, filterValue]) => {
-        if (!filterValue) return true;
-        const cellValue = String(row[column] || '').toLowerCase();
-        return cellValue.includes(filterValue.toLowerCase());
-      });
+  const getColumnType = (column: string): ColumnType => schema[column]?.type || 'text';
 
-      return matchesSearch && matchesFilters;
-    });
+  const issueCount = validation.errorCount + validation.warningCount;
 
-    if (sortColumn) {
-      filtered.sort((a, b) => {
-        const aValue = String(a[sortColumn] || '');
-        const bValue = String(b[sortColumn] || '');
+  const columnValueCounts = useColumnValueCounts(data, headers);
+  const savedViews = useSavedViews();
 
-        if (sortDirection === 'asc') {
-          return aValue.localeCompare(bValue);
-        } else {
-          return bValue.localeCompare(aValue);
-        }
-      });
+  const filterPredicate = useMemo(() => compileFilter(filter, schema), [filter, schema]);
+  const activeFilterCount = useMemo(() => countActiveConditions(filter, schema), [filter, schema]);
+  const rowPositions = useRowPositions(data);
+  // Only listed while the panel is open, which keeps edits from walking every issue.
+  const listedIssues = useMemo(
+    () => (showValidation ? listIssues(validation.byRow, rowPositions) : []),
+    [showValidation, validation, rowPositions]
+  );
+
+  const matchesRow = (row: CSVRow) => {
+    const matchesSearch = searchTerm === '' ||
+      visibleHeaders.some((header) =>
+        String(row[header] ?? '').toLowerCase().includes(searchTerm.toLowerCase())
+      );
+
+    return matchesSearch && filterPredicate(row);
+  };
+
+  const compareRows = createRowComparator(sortKeys, schema, emptyPlacement);
+
+  const filteredAndSortedData = useIncrementalView(
+    data,
+    matchesRow,
+    compareRows,
+    [headers, schema, searchTerm, sortKeys, emptyPlacement, filterPredicate]
+  );
+
+  // Renames, deletes, hiding and undo can remove columns that view settings
+  // point at.
+  useEffect(() => {
+    if (sortKeys.some(key => !visibleHeaders.includes(key.column))) {
+      setSortKeys(prev => prev.filter(key => visibleHeaders.includes(key.column)));
+    }
+    if (groupByColumns.some(column => !headers.includes(column))) {
+      setGroupByColumns(prev => prev.filter(column => headers.includes(column)));
+    }
+    if (aggregateColumns.some(column => !visibleHeaders.includes(column))) {
+      setAggregateColumns(prev => prev.filter(column => visibleHeaders.includes(column)));
+    }
+    if (getFilterColumns(filter).some(column => !visibleHeaders.includes(column))) {
+      setFilter(prev => pruneFilterColumns(prev, visibleHeaders));
     }
+    if (getPivotColumns(pivotConfig).some(column => !visibleHeaders.includes(column))) {
+      setPivotConfig(prev => prunePivotColumns(prev, visibleHeaders));
+    }
+    if (editingCell && !visibleHeaders.includes(editingCell.columnKey)) {
+      setEditingCell(null);
+    }
+  }, [headers, visibleHeaders]);
+
+  useEffect(() => {
+    onViewChange?.(filteredAndSortedData);
+  }, [filteredAndSortedData]);
 
-    return filtered;
-  }, [data, searchTerm, sortColumn, sortDirection, filters]);
+  const selectedRows = useMemo(
+    () => (selectedRowIds.size > 0 ? data.filter(row => selectedRowIds.has(getRowId(row))) : []),
+    [data, selectedRowIds]
+  );
 
+  // Rows removed by deletes or undo drop out of the selection.
   useEffect(() => {
-    setPage(0);
-  }, [searchTerm, sortColumn, sortDirection, filters]);
+    if (selectedRows.length < selectedRowIds.size) {
+      setSelectedRowIds(new Set(selectedRows.map(getRowId)));
+    }
+    onSelectionChange?.(selectedRows);
+  }, [selectedRows]);
 
-  const handleSort = (columnKey: string) => {
-    if (sortColumn === columnKey) {
-      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
-    } else {
-      setSortColumn(columnKey);
-      setSortDirection('asc');
+  useEffect(() => {
+    setPage(0);
+    if (scrollContainerRef.current) {
+      scrollContainerRef.current.scrollTop = 0;
     }
+  }, [searchTerm, sortKeys, emptyPlacement, filter]);
+
+  const handleSort = (columnKey: string, additive: boolean) => {
+    setSortKeys(prev => toggleSortKey(prev, columnKey, additive));
   };
 
-  const handleCellClick = (rowIndex: number, columnKey: string, value: string) => {
-    setEditingCell({ rowIndex, columnKey });
-    setEditValue(String(value));
+  // Typing into a cell replaces its value, as in a spreadsheet; F2 and
+  // double-click keep the current value. Computed cells are read-only.
+  const startEditing = (cell: CellPosition, typedText?: string) => {
+    const position = rowPositions.get(cell.rowId);
+    if (position === undefined || schema[cell.column]?.formula !== undefined) return;
+    const replaceValue = typedText !== undefined && getColumnType(cell.column) !== 'boolean';
+    setActiveCell(cell);
+    setEditingCell({ rowId: cell.rowId, columnKey: cell.column });
+    setEditValue(replaceValue ? typedText : String(data[position][cell.column] ?? ''));
+    setEditError(null);
   };
 
-  const handleCellEdit = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleCellEdit = (event: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     setEditValue(event.target.value);
+    setEditError(null);
   };
 
-  const handleCellSave = () => {
+  const handleCellSave = (discardInvalid = false): boolean => {
     if (editingCell) {
-      const updatedData = [...data];
-      updatedData[editingCell.rowIndex] = {
-        ...updatedData[editingCell.rowIndex],
-        [editingCell.columnKey]: editValue,
-      };
-      onDataUpdate(updatedData);
+      const columnType = getColumnType(editingCell.columnKey);
+      const parsedValue = parseValue(editValue, columnType);
+      if (parsedValue === null) {
+        if (discardInvalid) {
+          handleCellCancel();
+        } else {
+          setEditError(`Expected ${columnType === 'integer' ? 'an integer' : `a ${columnType}`} value`);
+        }
+        return false;
+      }
+      const position = rowPositions.get(editingCell.rowId);
+      if (position === undefined) {
+        handleCellCancel();
+        return false;
+      }
+      onRowUpdate(position, { ...data[position], [editingCell.columnKey]: parsedValue }, `Edit ${editingCell.columnKey}`);
       setEditingCell(null);
       setEditValue('');
+      setEditError(null);
     }
+    return true;
   };
 
   const handleCellCancel = () => {
     setEditingCell(null);
     setEditValue('');
+    setEditError(null);
   };
 
   const handleKeyPress = (event: React.KeyboardEvent) => {
-    if (event.key === 'Enter') {
-      handleCellSave();
+    if (event.key === 'Enter' || event.key === 'Tab') {
+      event.preventDefault();
+      if (handleCellSave()) {
+        if (event.key === 'Enter') {
+          moveActiveCell(event.shiftKey ? -1 : 1, 0, false);
+        } else {
+          moveByTab(event.shiftKey);
+        }
+        refocusGrid.current = true;
+      }
     } else if (event.key === 'Escape') {
       handleCellCancel();
+      refocusGrid.current = true;
     }
   };
 
   const handleAddRow = () => {
-    const newRow: CSVRow = {};
+    const rowId = createRowId();
+    const newRow: CSVRow = { [ROW_ID_KEY]: rowId };
     headers.forEach((header) => {
       newRow[header] = '';
     });
 
     const updatedData = [newRow, ...data];
-    onDataUpdate(updatedData);
+    onDataUpdate(updatedData, 'Add row');
     setPage(0);
 
     setTimeout(() => {
-      setEditingCell({ rowIndex: 0, columnKey: headers[0] });
+      const column = visibleHeaders[0] ?? headers[0];
+      setActiveCell({ rowId, column });
+      setRangeAnchor(null);
+      setEditingCell({ rowId, columnKey: column });
       setEditValue('');
     }, 100);
   };
 
-  const handleDeleteRow = (rowIndex: number) => {
-    const updatedData = data.filter((_, index) => index !== rowIndex);
-    onDataUpdate(updatedData);
+  const handleDeleteRow = (rowId: number) => {
+    const updatedData = data.filter(row => getRowId(row) !== rowId);
+    onDataUpdate(updatedData, 'Delete row');
+  };
+
+  const handleReplaceAll = (matches: ReplaceMatch[], options: FindReplaceOptions) => {
+    const changed = matches.filter(match => match.after !== match.before).length;
+    onDataUpdate(
+      applyReplacements(data, matches, schema),
+      `Replace "${options.find}" in ${changed} ${changed === 1 ? 'cell' : 'cells'}`
+    );
+    setShowFindReplace(false);
+  };
+
+  const toggleRowSelection = (rowId: number, extendRange: boolean) => {
+    const next = new Set(selectedRowIds);
+    if (extendRange && selectionAnchor !== null) {
+      getRowIdRange(displayedRowIds, selectionAnchor, rowId).forEach(id => next.add(id));
+    } else if (next.has(rowId)) {
+      next.delete(rowId);
+    } else {
+      next.add(rowId);
+    }
+    setSelectedRowIds(next);
+    setSelectionAnchor(rowId);
+  };
+
+  const selectAllMatching = () => {
+    setSelectedRowIds(new Set(filteredAndSortedData.map(getRowId)));
+  };
+
+  const clearSelection = () => {
+    setSelectedRowIds(new Set());
+    setSelectionAnchor(null);
+  };
+
+  const allMatchingSelected = useMemo(
+    () => filteredAndSortedData.length > 0 && filteredAndSortedData.every(row => selectedRowIds.has(getRowId(row))),
+    [filteredAndSortedData, selectedRowIds]
+  );
+
+  const selectionLabel = `${selectedRowIds.size} ${selectedRowIds.size === 1 ? 'row' : 'rows'}`;
+
+  const handleBulkSetValue = (column: string, value: CellValue) => {
+    onDataUpdate(setColumnValue(data, selectedRowIds, column, value), `Set ${column} on ${selectionLabel}`);
+  };
+
+  const handleBulkDuplicate = () => {
+    onDataUpdate(duplicateRows(data, selectedRowIds), `Duplicate ${selectionLabel}`);
+  };
+
+  const handleBulkDelete = () => {
+    onDataUpdate(deleteRows(data, selectedRowIds), `Delete ${selectionLabel}`);
+    clearSelection();
+  };
+
+  const datasetState: DatasetState = { data, headers, schema };
+
+  const handleAddColumn = (name: string, defaultValue: string) => {
+    onColumnsChange(addColumn(datasetState, name, defaultValue), `Add column ${name}`);
+  };
+
+  const handleAddComputedColumn = (name: string, formula: string) => {
+    onColumnsChange(addComputedColumn(datasetState, name, formula), `Add computed column ${name}`);
+  };
+
+  const handleFormulaChange = (column: string, formula: string) => {
+    onColumnsChange(setColumnFormula(datasetState, column, formula), `Edit formula of ${column}`);
+  };
+
+  const handleFreezeColumn = (column: string) => {
+    onColumnsChange(freezeColumn(datasetState, column), `Freeze column ${column}`);
+  };
+
+  const handleDedupe = (dedupedData: CSVRow[], removed: number) => {
+    onDataUpdate(dedupedData, `Remove ${removed} duplicate ${removed === 1 ? 'row' : 'rows'}`);
+    setShowDedupe(false);
+  };
+
+  const handleAppend = (sources: AppendSource[], sourceColumn: string | null) => {
+    const rowCount = sources.reduce((sum, source) => sum + source.data.length, 0);
+    onColumnsChange(
+      appendSources(datasetState, sources, sourceColumn, fileName),
+      `Append ${rowCount} rows from ${sources.length} ${sources.length === 1 ? 'file' : 'files'}`
+    );
+    setShowAppend(false);
+  };
+
+  const handleRenameColumn = (from: string, to: string) => {
+    const name = to.trim();
+    // Carry view settings over to the new name before the old one disappears.
+    setSortKeys(prev => prev.map(key => (key.column === from ? { ...key, column: name } : key)));
+    setGroupByColumns(prev => prev.map(column => (column === from ? name : column)));
+    setAggregateColumns(prev => prev.map(column => (column === from ? name : column)));
+    if (getFilterColumns(filter).includes(from)) {
+      setFilter(prev => renameFilterColumn(prev, from, name));
+    }
+    setPivotConfig(prev => renamePivotColumn(prev, from, name));
+    onColumnsChange(renameColumn(datasetState, from, name), `Rename ${from} to ${name}`);
+  };
+
+  const handleDeleteColumn = (column: string) => {
+    onColumnsChange(deleteColumn(datasetState, column), `Delete column ${column}`);
+  };
+
+  const handleMoveColumn = (column: string, toIndex: number) => {
+    if (headers.indexOf(column) === toIndex) return;
+    onColumnsChange(moveColumn(datasetState, column, toIndex), `Move column ${column}`);
+  };
+
+  const handleToggleHidden = (column: string) => {
+    const hidden = !schema[column]?.hidden;
+    onColumnsChange(setColumnHidden(datasetState, column, hidden), `${hidden ? 'Hide' : 'Show'} column ${column}`);
   };
 
+  const handleColumnDrop = (targetColumn: string) => {
+    if (draggedColumn && draggedColumn !== targetColumn) {
+      handleMoveColumn(draggedColumn, headers.indexOf(targetColumn));
+    }
+    setDraggedColumn(null);
+    setDropTargetColumn(null);
+  };
+
+  const getFrozenStyle = (index: number, backgroundColor: string): React.CSSProperties | undefined =>
+    index < frozenCount
+      ? {
+        position: 'sticky',
+        left: SELECT_COLUMN_WIDTH + index * FROZEN_COLUMN_WIDTH,
+        width: FROZEN_COLUMN_WIDTH,
+        minWidth: FROZEN_COLUMN_WIDTH,
+        maxWidth: FROZEN_COLUMN_WIDTH,
+        backgroundColor,
+        zIndex: 1,
+      }
+      : undefined;
+
+  // The checkbox column stays put alongside frozen columns.
+  const getSelectionStyle = (backgroundColor: string): React.CSSProperties => ({
+    width: SELECT_COLUMN_WIDTH,
+    minWidth: SELECT_COLUMN_WIDTH,
+    ...(frozenCount > 0 ? { position: 'sticky', left: 0, backgroundColor, zIndex: 1 } : {}),
+  });
+
   const getRowHighlight = (row: CSVRow) => {
-    if (!enableHighlighting || !groupByColumn) {
+    const highlightColumn = groupByColumns[0];
+    if (!enableHighlighting || !highlightColumn) {
       return '';
     }
 
-    const value = String(row[groupByColumn] || '').toLowerCase();
+    const value = String(row[highlightColumn] ?? '').toLowerCase();
 
     if (value) {
       const hash = value.split('').reduce((a, b) => {
@@ -168,61 +484,317 @@ const CSVDataTable: React.FC<CSVDataTableProps> = ({
     return '';
   };
 
-  const groupedData = useMemo(() => {
-    if (!groupByColumn || !showGroupHeaders) {
+  const groupedData = useMemo((): GroupedItem[] => {
+    if (groupByColumns.length === 0 || !showGroupHeaders) {
       return filteredAndSortedData;
     }
+    return buildGroupedRows(filteredAndSortedData, {
+      columns: groupByColumns,
+      collapsed: collapsedGroups,
+      aggregateColumns,
+      aggregateFunctions,
+    });
+  }, [filteredAndSortedData, groupByColumns, showGroupHeaders, collapsedGroups, aggregateColumns, aggregateFunctions]);
 
-    const groups: { [key: string]: CSVRow[] } = {};
+  const grandTotals = useMemo(
+    () => aggregateColumns.length > 0 && aggregateFunctions.length > 0
+      ? computeAggregates(filteredAndSortedData, aggregateColumns, aggregateFunctions)
+      : null,
+    [filteredAndSortedData, aggregateColumns, aggregateFunctions]
+  );
 
-    filteredAndSortedData.forEach(row => {
-      const groupValue = String(row[groupByColumn] || 'Unknown');
-      if (!groups[groupValue]) {
-        groups[groupValue] = [];
+  const toggleGroup = (key: string) => {
+    setCollapsedGroups(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
       }
-      groups[groupValue].push(row);
+      return next;
     });
+  };
+
+  const collapseAllGroups = () => {
+    setCollapsedGroups(new Set(
+      groupedData.flatMap(item => (isGroupHeader(item) && item.depth === 0 ? [item.key] : []))
+    ));
+  };
+
+  const displayedRowIds = useMemo(
+    () => groupedData.flatMap(row => (isGroupItem(row) ? [] : [getRowId(row)])),
+    [groupedData]
+  );
+
+  const displayedRowIndex = useMemo(
+    () => new Map(displayedRowIds.map((rowId, index) => [rowId, index])),
+    [displayedRowIds]
+  );
 
-    const result: (CSVRow | { isGroupHeader: true; groupValue: string; count: number })[] = [];
+  // The selected rectangle, as indexes into the displayed rows and columns.
+  const cellRange = useMemo(() => {
+    if (!activeCell) return null;
+    const anchor = rangeAnchor || activeCell;
+    const rows = [displayedRowIndex.get(anchor.rowId), displayedRowIndex.get(activeCell.rowId)];
+    const columns = [visibleHeaders.indexOf(anchor.column), visibleHeaders.indexOf(activeCell.column)];
+    if (rows[0] === undefined || rows[1] === undefined || columns.includes(-1)) return null;
+    return {
+      top: Math.min(rows[0], rows[1]),
+      bottom: Math.max(rows[0], rows[1]),
+      left: Math.min(columns[0], columns[1]),
+      right: Math.max(columns[0], columns[1]),
+    };
+  }, [activeCell, rangeAnchor, displayedRowIndex, visibleHeaders]);
 
-    Object.entries(groups).forEach(([groupValue, rows]) => {
-      result.push({
-        isGroupHeader: true,
-        groupValue,
-        count: rows.length
+  const isCellInRange = (rowId: number, columnIndex: number) => {
+    if (!cellRange || !rangeAnchor) return false;
+    const rowIndex = displayedRowIndex.get(rowId);
+    return rowIndex !== undefined
+      && rowIndex >= cellRange.top && rowIndex <= cellRange.bottom
+      && columnIndex >= cellRange.left && columnIndex <= cellRange.right;
+  };
+
+  const selectCell = (cell: CellPosition, extendRange: boolean) => {
+    setRangeAnchor(extendRange ? rangeAnchor || activeCell : null);
+    setActiveCell(cell);
+  };
+
+  const moveActiveCell = (rowDelta: number, columnDelta: number, extendRange: boolean) => {
+    if (!activeCell) return;
+    const rowIndex = displayedRowIndex.get(activeCell.rowId);
+    const columnIndex = visibleHeaders.indexOf(activeCell.column);
+    if (rowIndex === undefined || columnIndex === -1) return;
+    const nextRow = Math.max(0, Math.min(displayedRowIds.length - 1, rowIndex + rowDelta));
+    const nextColumn = Math.max(0, Math.min(visibleHeaders.length - 1, columnIndex + columnDelta));
+    selectCell({ rowId: displayedRowIds[nextRow], column: visibleHeaders[nextColumn] }, extendRange);
+  };
+
+  // Tab wraps to the start of the next row, Shift+Tab to the end of the previous one.
+  const moveByTab = (backwards: boolean) => {
+    if (!activeCell) return;
+    const columnIndex = visibleHeaders.indexOf(activeCell.column);
+    if (!backwards && columnIndex === visibleHeaders.length - 1) {
+      moveActiveCell(1, -columnIndex, false);
+    } else if (backwards && columnIndex === 0) {
+      moveActiveCell(-1, visibleHeaders.length - 1, false);
+    } else {
+      moveActiveCell(0, backwards ? -1 : 1, false);
+    }
+  };
+
+  const getRangeCells = (): { rowIds: number[]; columns: string[] } => {
+    if (!cellRange) return { rowIds: [], columns: [] };
+    return {
+      rowIds: displayedRowIds.slice(cellRange.top, cellRange.bottom + 1),
+      columns: visibleHeaders.slice(cellRange.left, cellRange.right + 1),
+    };
+  };
+
+  const clearRange = () => {
+    const { rowIds, columns } = getRangeCells();
+    if (rowIds.length === 0) return;
+    const updatedData = data.slice();
+    rowIds.forEach(rowId => {
+      const position = rowPositions.get(rowId);
+      if (position === undefined) return;
+      const cleared = { ...data[position] };
+      columns.forEach(column => {
+        cleared[column] = '';
       });
-      result.push(...rows);
+      updatedData[position] = cleared;
     });
+    const cellCount = rowIds.length * columns.length;
+    onDataUpdate(updatedData, `Clear ${cellCount} ${cellCount === 1 ? 'cell' : 'cells'}`);
+  };
 
-    return result;
-  }, [filteredAndSortedData, groupByColumn, showGroupHeaders]);
+  const handleGridKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (editingCell || !activeCell || event.target !== event.currentTarget) return;
+    const extend = event.shiftKey;
+
+    switch (event.key) {
+      case 'ArrowUp':
+        moveActiveCell(-1, 0, extend);
+        break;
+      case 'ArrowDown':
+        moveActiveCell(1, 0, extend);
+        break;
+      case 'ArrowLeft':
+        moveActiveCell(0, -1, extend);
+        break;
+      case 'ArrowRight':
+        moveActiveCell(0, 1, extend);
+        break;
+      case 'Tab':
+        moveByTab(event.shiftKey);
+        break;
+      case 'Enter':
+        moveActiveCell(event.shiftKey ? -1 : 1, 0, false);
+        break;
+      case 'F2':
+        startEditing(activeCell);
+        break;
+      case 'Delete':
+      case 'Backspace':
+        clearRange();
+        break;
+      case 'Escape':
+        setRangeAnchor(null);
+        break;
+      default:
+        if (event.key.length === 1 && !event.ctrlKey && !event.metaKey && !event.altKey) {
+          startEditing(activeCell, event.key);
+          break;
+        }
+        return;
+    }
+    event.preventDefault();
+  };
 
-  const handleFilterChange = (column: string, value: string) => {
-    setFilters(prev => ({
-      ...prev,
-      [column]: value
-    }));
+  const handleGridCopy = (event: React.ClipboardEvent<HTMLDivElement>) => {
+    if (editingCell || !cellRange) return;
+    const { rowIds, columns } = getRangeCells();
+    const block = rowIds.map(rowId => {
+      const position = rowPositions.get(rowId);
+      const row = position === undefined ? undefined : data[position];
+      return columns.map(column => row?.[column]);
+    });
+    event.clipboardData.setData('text/plain', toTSV(block));
+    event.preventDefault();
   };
 
-  const clearAllFilters = () => {
-    setFilters({});
+  const handleGridPaste = (event: React.ClipboardEvent<HTMLDivElement>) => {
+    if (editingCell || !cellRange) return;
+    const text = event.clipboardData.getData('text/plain');
+    if (!text) return;
+    event.preventDefault();
+
+    let block = parseTSV(text);
+    // A single copied value fills the whole selected range.
+    if (block.length === 1 && block[0].length === 1 && rangeAnchor) {
+      const rowCount = cellRange.bottom - cellRange.top + 1;
+      const columnCount = cellRange.right - cellRange.left + 1;
+      block = Array.from({ length: rowCount }, () => Array(columnCount).fill(block[0][0]));
+    }
+
+    const result = applyPaste(data, headers, schema, block, {
+      rowIds: displayedRowIds,
+      columns: visibleHeaders,
+      rowIndex: cellRange.top,
+      columnIndex: cellRange.left,
+    });
+    const description = `Paste ${result.cellCount} ${result.cellCount === 1 ? 'cell' : 'cells'}`;
+    onDataUpdate(
+      result.data,
+      result.addedRows > 0 ? `${description} (${result.addedRows} new rows)` : description
+    );
   };
 
-  const clearFilter = (column: string) => {
-    setFilters(prev => {
-      const newFilters = { ...prev };
-      delete newFilters[column];
-      return newFilters;
+  useEffect(() => {
+    if (!editingCell && refocusGrid.current) {
+      refocusGrid.current = false;
+      scrollContainerRef.current?.focus({ preventScroll: true });
+    }
+  }, [editingCell]);
+
+  // Bring the active cell into view, switching pages when needed.
+  useEffect(() => {
+    if (!activeCell || editingCell) return;
+    const index = groupedData.findIndex(row => !isGroupItem(row) && getRowId(row) === activeCell.rowId);
+    if (index === -1) return;
+    const container = scrollContainerRef.current;
+    if (continuousScroll && container) {
+      if (index * ROW_HEIGHT < container.scrollTop) {
+        container.scrollTop = index * ROW_HEIGHT;
+      } else if ((index + 2) * ROW_HEIGHT > container.scrollTop + VIEWPORT_HEIGHT) {
+        container.scrollTop = (index + 2) * ROW_HEIGHT - VIEWPORT_HEIGHT;
+      }
+    } else if (Math.floor(index / rowsPerPage) !== page) {
+      setPage(Math.floor(index / rowsPerPage));
+    }
+    requestAnimationFrame(() => {
+      document
+        .getElementById(`cell-${activeCell.rowId}-${activeCell.column}`)
+        ?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
     });
+  }, [activeCell]);
+
+  const renderAggregateCells = (aggregates: Record<string, ColumnAggregates>, label: string) => (
+    <>
+      <td style={getSelectionStyle('#f3f4f6')} />
+      {visibleHeaders.map((header, index) => {
+        const columnAggregates = aggregates[header];
+        return (
+          <td
+            key={header}
+            style={getFrozenStyle(index, '#f3f4f6')}
+            className={`px-4 py-2 whitespace-nowrap ${columnAggregates ? 'text-right tabular-nums' : 'text-gray-500'}`}
+          >
+            {columnAggregates
+              ? AGGREGATE_FUNCTIONS
+                .filter(option => option.value in columnAggregates)
+                .map(option => `${option.label} ${formatAggregate(columnAggregates[option.value])}`)
+                .join(' · ')
+              : index === 0 ? label : ''}
+          </td>
+        );
+      })}
+      <td />
+    </>
+  );
+
+  const clearAllFilters = () => {
+    setFilter(createFilterGroup());
   };
 
-  const getActiveFiltersCount = () => {
-    return Object.values(filters).filter(value => value.trim() !== '').length;
+  const handleApplyView = (view: SavedView) => {
+    setFilter(pruneFilterColumns(cloneFilter(view.filter), visibleHeaders));
   };
 
+  useEffect(() => {
+    if (!jumpTarget) return;
+
+    const index = groupedData.findIndex(row => !isGroupItem(row) && getRowId(row) === jumpTarget.rowId);
+    if (index === -1) {
+      // The row is hidden by the current search, filters or a collapsed group;
+      // clear them and retry.
+      if (searchTerm || activeFilterCount > 0 || collapsedGroups.size > 0) {
+        setSearchTerm('');
+        setFilter(createFilterGroup());
+        setCollapsedGroups(new Set());
+      } else {
+        setJumpTarget(null);
+      }
+      return;
+    }
+
+    if (continuousScroll && scrollContainerRef.current) {
+      scrollContainerRef.current.scrollTop = Math.max(0, index * ROW_HEIGHT - VIEWPORT_HEIGHT / 2);
+    } else {
+      setPage(Math.floor(index / rowsPerPage));
+    }
+    setHighlightedCell({ rowId: jumpTarget.rowId, column: jumpTarget.column });
+    setJumpTarget(null);
+  }, [jumpTarget, groupedData]);
+
+  useEffect(() => {
+    if (!highlightedCell) return;
+    document
+      .getElementById(`cell-${highlightedCell.rowId}-${highlightedCell.column}`)
+      ?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    const timer = setTimeout(() => setHighlightedCell(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightedCell]);
+
   const totalPages = Math.ceil(groupedData.length / rowsPerPage);
   const paginatedData = groupedData.slice(page * rowsPerPage, (page + 1) * rowsPerPage);
 
+  const virtualStart = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const virtualEnd = Math.min(
+    groupedData.length,
+    Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN_ROWS
+  );
+  const visibleRows = continuousScroll ? groupedData.slice(virtualStart, virtualEnd) : paginatedData;
+
   return (
     <div>
       {/* Header */}
@@ -240,14 +812,110 @@ const CSVDataTable: React.FC<CSVDataTableProps> = ({
             className="input w-48"
           />
 
+          <button
+            onClick={() => setShowFindReplace(true)}
+            className="btn btn-secondary"
+            title="Find and replace values"
+          >
+            Replace
+          </button>
+
+          <button
+            onClick={() => setShowDedupe(true)}
+            className="btn btn-secondary"
+            title="Find and remove duplicate rows"
+          >
+            Dedupe
+          </button>
+
+          <div className="inline-flex rounded-lg shadow-sm">
+            <button
+              onClick={() => setViewMode('grid')}
+              className={`btn btn-secondary rounded-r-none ${viewMode === 'grid' ? 'bg-gray-100' : ''}`}
+            >
+              Grid
+            </button>
+            <button
+              onClick={() => setViewMode('pivot')}
+              className={`btn btn-secondary rounded-l-none border-l-0 ${viewMode === 'pivot' ? 'bg-gray-100' : ''}`}
+            >
+              Pivot
+            </button>
+          </div>
+
           <button
             onClick={() => setShowFilters(!showFilters)}
-            className={`btn ${getActiveFiltersCount() > 0 ? 'btn-warning' : 'btn-secondary'} inline-flex items-center gap-2`}
+            className={`btn ${activeFilterCount > 0 ? 'btn-warning' : 'btn-secondary'} inline-flex items-center gap-2`}
           >
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z" />
             </svg>
-            Filters {getActiveFiltersCount() > 0 && `(${getActiveFiltersCount()})`}
+            Filters {activeFilterCount > 0 && `(${activeFilterCount})`}
+          </button>
+
+          <div className="inline-flex rounded-lg shadow-sm">
+            <button
+              onClick={onUndo}
+              disabled={historyIndex === 0}
+              className="btn btn-secondary rounded-r-none px-3"
+              title="Undo (Ctrl+Z)"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+              </svg>
+            </button>
+            <button
+              onClick={onRedo}
+              disabled={historyIndex >= historyEntries.length - 1}
+              className="btn btn-secondary rounded-none border-l-0 px-3"
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10H11a8 8 0 00-8 8v2m18-10l-6 6m6-6l-6-6" />
+              </svg>
+            </button>
+            <button
+              onClick={() => setShowHistory(!showHistory)}
+              className={`btn btn-secondary rounded-l-none border-l-0 px-3 ${showHistory ? 'bg-gray-100' : ''}`}
+              title="Show history"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+            </button>
+          </div>
+
+          {issueCount > 0 && (
+            <button
+              onClick={() => setShowValidation(!showValidation)}
+              className={`btn ${validation.errorCount > 0 ? 'btn-danger' : 'btn-warning'} inline-flex items-center gap-2`}
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+              </svg>
+              Issues ({issueCount})
+            </button>
+          )}
+
+          <button
+            onClick={() => setShowColumnSettings(!showColumnSettings)}
+            className="btn btn-secondary inline-flex items-center gap-2"
+            title={hiddenCount > 0 ? `${hiddenCount} hidden` : undefined}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
+            </svg>
+            Columns {hiddenCount > 0 && `(${hiddenCount} hidden)`}
+          </button>
+
+          <button
+            onClick={() => setShowProfile(!showProfile)}
+            className={`btn btn-secondary inline-flex items-center gap-2 ${showProfile ? 'bg-gray-100' : ''}`}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+            </svg>
+            Profile
           </button>
 
           <button
@@ -261,9 +929,17 @@ const CSVDataTable: React.FC<CSVDataTableProps> = ({
           </button>
 
           <button
-            onClick={onSave}
+            onClick={() => setShowAppend(true)}
+            className="btn btn-secondary"
+            title="Append rows from other files"
+          >
+            Append Files
+          </button>
+
+          <button
+            onClick={() => onSave()}
             className={`btn inline-flex items-center gap-2 ${hasUnsavedChanges ? 'btn-warning animate-pulse-warning' : 'btn-primary'}`}
-            title={hasUnsavedChanges ? 'Save data to CSV file (Ctrl+S)' : 'Save data to CSV file'}
+            title={hasUnsavedChanges ? 'Export data (Ctrl+S)' : 'Export data'}
           >
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7H5a2 2 0 00-2 2v9a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-3m-1 4l-3 3m0 0l-3-3m3 3V4" />
@@ -275,242 +951,533 @@ const CSVDataTable: React.FC<CSVDataTableProps> = ({
 
       {/* Filters Panel */}
       {showFilters && (
-        <div className="mb-4 p-4 bg-gray-50 rounded-lg border border-gray-200">
-          <div className="flex justify-between items-center mb-3">
-            <h3 className="font-medium text-gray-900">Column Filters</h3>
-            <button
-              onClick={clearAllFilters}
-              disabled={getActiveFiltersCount() === 0}
-              className="text-sm text-gray-500 hover:text-gray-700 disabled:opacity-50"
-            >
-              Clear All
-            </button>
-          </div>
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-3">
-            {headers.map((header) => (
-              <div key={header} className="flex items-center gap-2">
-                <select
-                  value={filters[header] || ''}
-                  onChange={(e) => handleFilterChange(header, e.target.value)}
-                  className="input text-sm flex-1"
-                >
-                  <option value="">All {header}</option>
-                  {Array.from(columnValues[header]).sort().map((value) => (
-                    <option key={value} value={value}>{value}</option>
-                  ))}
-                </select>
-                {filters[header] && (
-                  <button
-                    onClick={() => clearFilter(header)}
-                    className="p-1 text-red-500 hover:bg-red-50 rounded"
-                  >
-                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                    </svg>
-                  </button>
-                )}
-              </div>
-            ))}
-          </div>
-        </div>
+        <FilterBuilder
+          headers={visibleHeaders}
+          schema={schema}
+          filter={filter}
+          activeCount={activeFilterCount}
+          columnValueCounts={columnValueCounts}
+          savedViews={savedViews.views}
+          savedViewsError={savedViews.error}
+          onChange={setFilter}
+          onClear={clearAllFilters}
+          onSaveView={(name) => savedViews.saveView(name, filter)}
+          onApplyView={handleApplyView}
+          onDeleteView={savedViews.removeView}
+        />
       )}
 
-      {/* Grouping Controls */}
-      <div className="flex flex-wrap items-center gap-4 mb-4 p-3 bg-gray-50 rounded-lg">
-        <label className="flex items-center gap-2 cursor-pointer">
-          <input
-            type="checkbox"
-            checked={enableHighlighting}
-            onChange={(e) => setEnableHighlighting(e.target.checked)}
-            className="w-4 h-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
-          />
-          <span className="text-sm text-gray-700">Enable Highlighting</span>
-        </label>
-
-        <div className="flex items-center gap-2">
-          <label className="text-sm text-gray-700">Group By:</label>
-          <select
-            value={groupByColumn}
-            onChange={(e) => setGroupByColumn(e.target.value)}
-            className="input text-sm w-40"
-          >
-            <option value="">None</option>
-            {headers.map((header) => (
-              <option key={header} value={header}>{header}</option>
-            ))}
-          </select>
-        </div>
+      {showFindReplace && (
+        <FindReplaceDialog
+          data={data}
+          headers={visibleHeaders}
+          initialFind={searchTerm}
+          onReplace={handleReplaceAll}
+          onCancel={() => setShowFindReplace(false)}
+        />
+      )}
 
-        <label className="flex items-center gap-2 cursor-pointer">
-          <input
-            type="checkbox"
-            checked={showGroupHeaders}
-            onChange={(e) => setShowGroupHeaders(e.target.checked)}
-            disabled={!groupByColumn}
-            className="w-4 h-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500 disabled:opacity-50"
-          />
-          <span className={`text-sm ${groupByColumn ? 'text-gray-700' : 'text-gray-400'}`}>
-            Show Group Headers
-          </span>
-        </label>
-      </div>
+      {showDedupe && (
+        <DedupeDialog
+          data={data}
+          headers={headers}
+          onApply={handleDedupe}
+          onCancel={() => setShowDedupe(false)}
+        />
+      )}
 
-      {/* Table */}
-      <div className="overflow-x-auto border border-gray-200 rounded-lg">
-        <table className="w-full text-sm">
-          <thead className="bg-gray-50 sticky top-0">
-            <tr>
-              {headers.map((header) => (
-                <th
-                  key={header}
-                  onClick={() => handleSort(header)}
-                  className="px-4 py-3 text-left font-medium text-gray-700 cursor-pointer hover:bg-gray-100 select-none"
-                >
-                  <div className="flex items-center gap-1">
-                    {header}
-                    {sortColumn === header && (
-                      <svg
-                        className={`w-4 h-4 transition-transform ${sortDirection === 'desc' ? 'rotate-180' : ''}`}
-                        fill="none"
-                        stroke="currentColor"
-                        viewBox="0 0 24 24"
-                      >
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
-                      </svg>
-                    )}
-                  </div>
-                </th>
-              ))}
-              <th className="px-4 py-3 text-left font-medium text-gray-700 w-20">Actions</th>
-            </tr>
-          </thead>
-          <tbody className="divide-y divide-gray-200">
-            {paginatedData.map((row, index) => {
-              const rowIndex = page * rowsPerPage + index;
-
-              if ('isGroupHeader' in row) {
-                return (
-                  <tr key={`group-${row.groupValue}`} className="bg-primary-600">
-                    <td
-                      colSpan={headers.length + 1}
-                      className="px-4 py-2 text-white font-medium"
-                    >
-                      {row.groupValue} ({row.count} items)
-                    </td>
-                  </tr>
-                );
-              }
+      {showAppend && (
+        <AppendFilesDialog
+          headers={headers}
+          schema={schema}
+          onAppend={handleAppend}
+          onCancel={() => setShowAppend(false)}
+        />
+      )}
+
+      {/* History Panel */}
+      {showHistory && (
+        <HistoryPanel
+          entries={historyEntries}
+          currentIndex={historyIndex}
+          onJump={onHistoryJump}
+        />
+      )}
 
-              const bgColor = getRowHighlight(row);
+      {/* Validation Panel */}
+      {showValidation && issueCount > 0 && (
+        <ValidationPanel issues={listedIssues} onJump={setJumpTarget} />
+      )}
 
-              return (
-                <tr
-                  key={rowIndex}
-                  className="hover:bg-gray-50 transition-colors"
-                  style={bgColor ? { backgroundColor: bgColor } : undefined}
+      {/* Column Profile Panel */}
+      {showProfile && (
+        <ColumnProfilePanel
+          headers={headers}
+          schema={schema}
+          columnValueCounts={columnValueCounts}
+          totalRows={data.length}
+        />
+      )}
+
+      {/* Column Settings Panel */}
+      {showColumnSettings && (
+        <ColumnSettingsPanel
+          headers={headers}
+          schema={schema}
+          onSchemaChange={onSchemaChange}
+          onAddColumn={handleAddColumn}
+          onRenameColumn={handleRenameColumn}
+          onDeleteColumn={handleDeleteColumn}
+          onMoveColumn={handleMoveColumn}
+          onToggleHidden={handleToggleHidden}
+          onAddComputedColumn={handleAddComputedColumn}
+          onFormulaChange={handleFormulaChange}
+          onFreezeColumn={handleFreezeColumn}
+        />
+      )}
+
+      {viewMode === 'pivot' ? (
+        <PivotView
+          data={filteredAndSortedData}
+          headers={visibleHeaders}
+          schema={schema}
+          config={pivotConfig}
+          onConfigChange={setPivotConfig}
+          onResultChange={onPivotChange}
+        />
+      ) : (
+        <>
+          {/* Grouping Controls */}
+          <div className="flex flex-wrap items-center gap-4 mb-4 p-3 bg-gray-50 rounded-lg">
+            <GroupByControls
+              headers={visibleHeaders}
+              schema={schema}
+              groupByColumns={groupByColumns}
+              aggregateColumns={aggregateColumns}
+              aggregateFunctions={aggregateFunctions}
+              onGroupByChange={(columns) => {
+                setGroupByColumns(columns);
+                setCollapsedGroups(new Set());
+              }}
+              onAggregateColumnsChange={setAggregateColumns}
+              onAggregateFunctionsChange={setAggregateFunctions}
+            />
+
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={enableHighlighting}
+                onChange={(e) => setEnableHighlighting(e.target.checked)}
+                className="w-4 h-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              <span className="text-sm text-gray-700">Enable Highlighting</span>
+            </label>
+
+            <div className="flex items-center gap-2">
+              <label className="text-sm text-gray-700">Freeze:</label>
+              <select
+                value={frozenCount}
+                onChange={(e) => setFrozenCount(Number(e.target.value))}
+                className="input text-sm w-36"
+              >
+                <option value={0}>No columns</option>
+                {Array.from({ length: Math.min(MAX_FROZEN_COLUMNS, visibleHeaders.length) }, (_, i) => (
+                  <option key={i + 1} value={i + 1}>
+                    First {i + 1} {i === 0 ? 'column' : 'columns'}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={showGroupHeaders}
+                onChange={(e) => setShowGroupHeaders(e.target.checked)}
+                disabled={groupByColumns.length === 0}
+                className="w-4 h-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500 disabled:opacity-50"
+              />
+              <span className={`text-sm ${groupByColumns.length > 0 ? 'text-gray-700' : 'text-gray-400'}`}>
+                Show Group Headers
+              </span>
+            </label>
+
+            {groupByColumns.length > 0 && showGroupHeaders && (
+              <div className="flex items-center gap-2">
+                <button onClick={collapseAllGroups} className="text-sm text-gray-500 hover:text-gray-700">
+                  Collapse All
+                </button>
+                <button
+                  onClick={() => setCollapsedGroups(new Set())}
+                  disabled={collapsedGroups.size === 0}
+                  className="text-sm text-gray-500 hover:text-gray-700 disabled:opacity-50"
                 >
-                  {headers.map((header) => (
-                    <td
+                  Expand All
+                </button>
+              </div>
+            )}
+
+            <div className="flex items-center gap-2">
+              <label className="text-sm text-gray-700">Empty Values:</label>
+              <select
+                value={emptyPlacement}
+                onChange={(e) => setEmptyPlacement(e.target.value as EmptyPlacement)}
+                className="input text-sm w-28"
+              >
+                <option value="first">Sort first</option>
+                <option value="last">Sort last</option>
+              </select>
+              {sortKeys.length > 0 && (
+                <button
+                  onClick={() => setSortKeys([])}
+                  className="text-sm text-gray-500 hover:text-gray-700"
+                >
+                  Clear sort ({sortKeys.length})
+                </button>
+              )}
+            </div>
+
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={continuousScroll}
+                onChange={(e) => {
+                  setContinuousScroll(e.target.checked);
+                  setScrollTop(0);
+                  setPage(0);
+                }}
+                className="w-4 h-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              <span className="text-sm text-gray-700">Continuous Scroll</span>
+            </label>
+          </div>
+
+          {selectedRowIds.size > 0 && (
+            <RowSelectionBar
+              headers={visibleHeaders}
+              schema={schema}
+              selectedCount={selectedRowIds.size}
+              matchingCount={filteredAndSortedData.length}
+              onSelectAllMatching={selectAllMatching}
+              onClear={clearSelection}
+              onSetValue={handleBulkSetValue}
+              onDuplicate={handleBulkDuplicate}
+              onDelete={handleBulkDelete}
+              onExport={() => onSave('selection')}
+            />
+          )}
+
+          {/* Table */}
+          <div
+            ref={scrollContainerRef}
+            tabIndex={0}
+            onKeyDown={handleGridKeyDown}
+            onCopy={handleGridCopy}
+            onPaste={handleGridPaste}
+            onScroll={continuousScroll ? (e) => setScrollTop(e.currentTarget.scrollTop) : undefined}
+            className={`overflow-x-auto border border-gray-200 rounded-lg focus:outline-none ${continuousScroll ? 'overflow-y-auto' : ''}`}
+            style={continuousScroll ? { maxHeight: VIEWPORT_HEIGHT } : undefined}
+          >
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 sticky top-0 z-10">
+                <tr>
+                  <th style={getSelectionStyle('#f9fafb')} className="px-3 py-3">
+                    <input
+                      type="checkbox"
+                      checked={allMatchingSelected}
+                      onChange={(e) => (e.target.checked ? selectAllMatching() : clearSelection())}
+                      title="Select all rows matching the current filter"
+                      className="w-4 h-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    />
+                  </th>
+                  {visibleHeaders.map((header, index) => (
+                    <th
                       key={header}
-                      onClick={() => handleCellClick(rowIndex, header, String(row[header] || ''))}
-                      className="px-4 py-2 cursor-pointer"
+                      draggable
+                      onClick={(e) => handleSort(header, e.shiftKey)}
+                      onDragStart={(e) => {
+                        e.dataTransfer.effectAllowed = 'move';
+                        e.dataTransfer.setData('text/plain', header);
+                        setDraggedColumn(header);
+                      }}
+                      onDragOver={(e) => {
+                        if (!draggedColumn) return;
+                        e.preventDefault();
+                        setDropTargetColumn(header);
+                      }}
+                      onDrop={(e) => {
+                        e.preventDefault();
+                        handleColumnDrop(header);
+                      }}
+                      onDragEnd={() => {
+                        setDraggedColumn(null);
+                        setDropTargetColumn(null);
+                      }}
+                      style={getFrozenStyle(index, '#f9fafb')}
+                      title="Click to sort, Shift+click to add a sort key, drag to reorder"
+                      className={`px-4 py-3 text-left font-medium text-gray-700 cursor-pointer hover:bg-gray-100 select-none ${draggedColumn === header ? 'opacity-50' : ''} ${dropTargetColumn === header && draggedColumn !== header ? 'border-l-2 border-primary-500' : ''}`}
                     >
-                      {editingCell?.rowIndex === rowIndex && editingCell?.columnKey === header ? (
-                        <input
-                          type="text"
-                          value={editValue}
-                          onChange={handleCellEdit}
-                          onKeyDown={handleKeyPress}
-                          onBlur={handleCellSave}
-                          autoFocus
-                          className="w-full px-2 py-1 border border-primary-500 rounded focus:outline-none focus:ring-2 focus:ring-primary-500"
-                        />
-                      ) : (
-                        <span className="text-gray-900">{String(row[header] || '')}</span>
-                      )}
-                    </td>
+                      <div className="flex items-center gap-1">
+                        {header}
+                        {schema[header]?.formula !== undefined && (
+                          <span className="text-xs text-gray-500 font-normal" title={`= ${schema[header].formula}`}>ƒ</span>
+                        )}
+                        {sortKeys.map((key, priority) => key.column === header && (
+                          <span key={key.column} className="inline-flex items-center">
+                            <svg
+                              className={`w-4 h-4 transition-transform ${key.direction === 'desc' ? 'rotate-180' : ''}`}
+                              fill="none"
+                              stroke="currentColor"
+                              viewBox="0 0 24 24"
+                            >
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+                            </svg>
+                            {sortKeys.length > 1 && (
+                              <span className="text-xs text-primary-600 font-semibold">{priority + 1}</span>
+                            )}
+                          </span>
+                        ))}
+                      </div>
+                    </th>
                   ))}
-                  <td className="px-4 py-2">
-                    <button
-                      onClick={() => handleDeleteRow(rowIndex)}
-                      className="p-1 text-red-500 hover:bg-red-50 rounded transition-colors"
-                      title="Delete row"
-                    >
-                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                      </svg>
-                    </button>
-                  </td>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700 w-20">Actions</th>
                 </tr>
-              );
-            })}
-          </tbody>
-        </table>
-      </div>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {continuousScroll && virtualStart > 0 && (
+                  <tr aria-hidden="true" style={{ height: virtualStart * ROW_HEIGHT }} />
+                )}
+                {visibleRows.map((row) => {
+                  if (isGroupHeader(row)) {
+                    return (
+                      <tr
+                        key={`group-${row.key}`}
+                        className={row.depth === 0 ? 'bg-primary-600' : 'bg-primary-100'}
+                        style={continuousScroll ? { height: ROW_HEIGHT } : undefined}
+                      >
+                        <td
+                          colSpan={visibleHeaders.length + 2}
+                          className={`px-4 py-2 font-medium ${row.depth === 0 ? 'text-white' : 'text-primary-800'}`}
+                        >
+                          <button
+                            onClick={() => toggleGroup(row.key)}
+                            className="inline-flex items-center gap-2"
+                            style={{ paddingLeft: row.depth * 20 }}
+                            aria-expanded={!row.collapsed}
+                          >
+                            <svg
+                              className={`w-4 h-4 transition-transform ${row.collapsed ? '-rotate-90' : ''}`}
+                              fill="none"
+                              stroke="currentColor"
+                              viewBox="0 0 24 24"
+                            >
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                            </svg>
+                            {groupByColumns.length > 1 && `${row.column}: `}{row.groupValue} ({row.count} items)
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  }
 
-      {/* Pagination */}
-      <div className="flex flex-col sm:flex-row justify-between items-center gap-4 mt-4">
-        <div className="flex items-center gap-2">
-          <span className="text-sm text-gray-600">Rows per page:</span>
-          <select
-            value={rowsPerPage}
-            onChange={(e) => {
-              setRowsPerPage(Number(e.target.value));
-              setPage(0);
-            }}
-            className="input text-sm w-20"
-          >
-            <option value={10}>10</option>
-            <option value={25}>25</option>
-            <option value={50}>50</option>
-            <option value={100}>100</option>
-          </select>
-        </div>
+                  if (isGroupSummary(row)) {
+                    return (
+                      <tr
+                        key={`summary-${row.key}`}
+                        className="bg-gray-100 text-xs"
+                        style={continuousScroll ? { height: ROW_HEIGHT } : undefined}
+                      >
+                        {renderAggregateCells(row.aggregates, 'Subtotal')}
+                      </tr>
+                    );
+                  }
 
-        <div className="flex items-center gap-4">
-          <span className="text-sm text-gray-600">
-            {page * rowsPerPage + 1}-{Math.min((page + 1) * rowsPerPage, groupedData.length)} of {groupedData.length}
-          </span>
-          <div className="flex gap-1">
-            <button
-              onClick={() => setPage(0)}
-              disabled={page === 0}
-              className="p-2 text-gray-600 hover:bg-gray-100 rounded disabled:opacity-50 disabled:hover:bg-transparent"
-            >
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 19l-7-7 7-7m8 14l-7-7 7-7" />
-              </svg>
-            </button>
-            <button
-              onClick={() => setPage(p => Math.max(0, p - 1))}
-              disabled={page === 0}
-              className="p-2 text-gray-600 hover:bg-gray-100 rounded disabled:opacity-50 disabled:hover:bg-transparent"
-            >
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
-              </svg>
-            </button>
-            <button
-              onClick={() => setPage(p => Math.min(totalPages - 1, p + 1))}
-              disabled={page >= totalPages - 1}
-              className="p-2 text-gray-600 hover:bg-gray-100 rounded disabled:opacity-50 disabled:hover:bg-transparent"
-            >
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-              </svg>
-            </button>
-            <button
-              onClick={() => setPage(totalPages - 1)}
-              disabled={page >= totalPages - 1}
-              className="p-2 text-gray-600 hover:bg-gray-100 rounded disabled:opacity-50 disabled:hover:bg-transparent"
-            >
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 5l7 7-7 7M5 5l7 7-7 7" />
-              </svg>
-            </button>
+                  const rowId = getRowId(row);
+                  const isSelected = selectedRowIds.has(rowId);
+                  const bgColor = isSelected ? '#eff6ff' : getRowHighlight(row);
+
+                  return (
+                    <tr
+                      key={rowId}
+                      className="hover:bg-gray-50 transition-colors"
+                      style={{
+                        ...(bgColor ? { backgroundColor: bgColor } : {}),
+                        ...(continuousScroll ? { height: ROW_HEIGHT } : {}),
+                      }}
+                    >
+                      <td style={getSelectionStyle(bgColor || '#ffffff')} className="px-3 py-2">
+                        <input
+                          type="checkbox"
+                          checked={isSelected}
+                          readOnly
+                          onClick={(e) => toggleRowSelection(rowId, e.shiftKey)}
+                          title="Select row (Shift+click to select a range)"
+                          className="w-4 h-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                        />
+                      </td>
+                      {visibleHeaders.map((header, index) => {
+                        const columnType = getColumnType(header);
+                        const isNumeric = columnType === 'number' || columnType === 'integer';
+                        const cellIssues = getCellIssues(validation.byRow, rowId, header);
+                        const issueClass = !cellIssues
+                          ? ''
+                          : cellIssues.some(issue => issue.severity === 'error')
+                            ? 'bg-red-50 ring-1 ring-inset ring-red-300'
+                            : 'bg-amber-50 ring-1 ring-inset ring-amber-300';
+                        const isHighlighted = highlightedCell?.rowId === rowId && highlightedCell?.column === header;
+                        const isActive = activeCell?.rowId === rowId && activeCell?.column === header;
+                        const inRange = isCellInRange(rowId, index);
+                        const isEditing = editingCell?.rowId === rowId && editingCell?.columnKey === header;
+
+                        return (
+                          <td
+                            key={header}
+                            id={`cell-${rowId}-${header}`}
+                            onClick={(e) => selectCell({ rowId, column: header }, e.shiftKey)}
+                            onDoubleClick={() => startEditing({ rowId, column: header })}
+                            title={cellIssues?.map(issue => issue.message).join('\n')}
+                            style={getFrozenStyle(index, inRange ? RANGE_BACKGROUND : bgColor || '#ffffff')
+                              ?? (inRange ? { backgroundColor: RANGE_BACKGROUND } : undefined)}
+                            className={`px-4 py-2 cursor-cell ${isEditing ? '' : 'select-none'} ${isNumeric ? 'text-right tabular-nums' : ''} ${issueClass} ${isHighlighted || isActive ? 'ring-2 ring-inset ring-primary-500' : ''}`}
+                          >
+                            {isEditing ? (
+                              <div>
+                                {columnType === 'boolean' ? (
+                                  <select
+                                    value={editValue.toLowerCase()}
+                                    onChange={handleCellEdit}
+                                    onKeyDown={handleKeyPress}
+                                    onBlur={() => handleCellSave(true)}
+                                    autoFocus
+                                    className="w-full px-2 py-1 border border-primary-500 rounded focus:outline-none focus:ring-2 focus:ring-primary-500"
+                                  >
+                                    <option value=""></option>
+                                    <option value="true">true</option>
+                                    <option value="false">false</option>
+                                  </select>
+                                ) : (
+                                  <input
+                                    type="text"
+                                    inputMode={isNumeric ? 'decimal' : undefined}
+                                    value={editValue}
+                                    onChange={handleCellEdit}
+                                    onKeyDown={handleKeyPress}
+                                    onBlur={() => handleCellSave(true)}
+                                    autoFocus
+                                    className={`w-full px-2 py-1 border rounded focus:outline-none focus:ring-2 ${editError ? 'border-red-500 focus:ring-red-500' : 'border-primary-500 focus:ring-primary-500'}`}
+                                  />
+                                )}
+                                {editError && (
+                                  <p className="mt-1 text-xs text-red-600 text-left">{editError}</p>
+                                )}
+                              </div>
+                            ) : (
+                              <span className="text-gray-900">{String(row[header] ?? '')}</span>
+                            )}
+                          </td>
+                        );
+                      })}
+                      <td className="px-4 py-2">
+                        <button
+                          onClick={() => handleDeleteRow(rowId)}
+                          className="p-1 text-red-500 hover:bg-red-50 rounded transition-colors"
+                          title="Delete row"
+                        >
+                          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                          </svg>
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+                {continuousScroll && virtualEnd < groupedData.length && (
+                  <tr aria-hidden="true" style={{ height: (groupedData.length - virtualEnd) * ROW_HEIGHT }} />
+                )}
+              </tbody>
+              {grandTotals && (
+                <tfoot className="bg-gray-100 border-t-2 border-gray-300 font-medium text-xs sticky bottom-0">
+                  <tr>
+                    {renderAggregateCells(grandTotals, `Total (${filteredAndSortedData.length} rows)`)}
+                  </tr>
+                </tfoot>
+              )}
+            </table>
           </div>
-        </div>
-      </div>
+
+          {/* Pagination */}
+          {continuousScroll ? (
+            <div className="flex justify-end mt-4">
+              <span className="text-sm text-gray-600">
+                {groupedData.length === 0 ? 0 : virtualStart + 1}-{virtualEnd} of {groupedData.length}
+              </span>
+            </div>
+          ) : (
+            <div className="flex flex-col sm:flex-row justify-between items-center gap-4 mt-4">
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-gray-600">Rows per page:</span>
+                <select
+                  value={rowsPerPage}
+                  onChange={(e) => {
+                    setRowsPerPage(Number(e.target.value));
+                    setPage(0);
+                  }}
+                  className="input text-sm w-20"
+                >
+                  <option value={10}>10</option>
+                  <option value={25}>25</option>
+                  <option value={50}>50</option>
+                  <option value={100}>100</option>
+                </select>
+              </div>
+
+              <div className="flex items-center gap-4">
+                <span className="text-sm text-gray-600">
+                  {page * rowsPerPage + 1}-{Math.min((page + 1) * rowsPerPage, groupedData.length)} of {groupedData.length}
+                </span>
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => setPage(0)}
+                    disabled={page === 0}
+                    className="p-2 text-gray-600 hover:bg-gray-100 rounded disabled:opacity-50 disabled:hover:bg-transparent"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 19l-7-7 7-7m8 14l-7-7 7-7" />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={() => setPage(p => Math.max(0, p - 1))}
+                    disabled={page === 0}
+                    className="p-2 text-gray-600 hover:bg-gray-100 rounded disabled:opacity-50 disabled:hover:bg-transparent"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={() => setPage(p => Math.min(totalPages - 1, p + 1))}
+                    disabled={page >= totalPages - 1}
+                    className="p-2 text-gray-600 hover:bg-gray-100 rounded disabled:opacity-50 disabled:hover:bg-transparent"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={() => setPage(totalPages - 1)}
+                    disabled={page >= totalPages - 1}
+                    className="p-2 text-gray-600 hover:bg-gray-100 rounded disabled:opacity-50 disabled:hover:bg-transparent"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 5l7 7-7 7M5 5l7 7-7 7" />
+                    </svg>
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+        </>
+      )}
     </div>
   );
 };
@@ -0,0 +1,156 @@
+import { useMemo, useState } from 'react';
+import { ColumnSchema } from '../types/csv';
+import { ColumnProfile } from '../types/profile';
+import { formatAggregate } from '../utils/aggregation';
+import { COLUMN_TYPES } from '../utils/columnTypes';
+import { profileColumn } from '../utils/profiling';
+
+interface ColumnProfilePanelProps {
+  headers: string[];
+  schema: ColumnSchema;
+  columnValueCounts: Record<string, Map<string, number>>;
+  totalRows: number;
+}
+
+const typeLabel = (type: ColumnProfile['type']) => COLUMN_TYPES.find(option => option.value === type)?.label || type;
+
+const percent = (count: number, total: number) => (total > 0 ? `${Math.round((count / total) * 100)}%` : '0%');
+
+const Stat: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="p-2 bg-white rounded border border-gray-200">
+    <div className="text-xs text-gray-500">{label}</div>
+    <div className="text-sm font-medium text-gray-900 tabular-nums">{value}</div>
+  </div>
+);
+
+const ColumnProfilePanel: React.FC<ColumnProfilePanelProps> = ({ headers, schema, columnValueCounts, totalRows }) => {
+  const [selectedColumn, setSelectedColumn] = useState<string | null>(null);
+
+  const profiles = useMemo(
+    () => headers.map(header =>
+      profileColumn(header, schema[header]?.type || 'text', columnValueCounts[header] || new Map(), totalRows)
+    ),
+    [headers, schema, columnValueCounts, totalRows]
+  );
+
+  const profile = profiles.find(candidate => candidate.column === selectedColumn) || profiles[0];
+  const mismatchCount = profiles.filter(candidate => candidate.mismatch).length;
+
+  if (!profile) {
+    return null;
+  }
+
+  const maxBinCount = Math.max(1, ...profile.histogram.map(bin => bin.count));
+  const maxValueCount = Math.max(1, ...profile.topValues.map(value => value.count));
+
+  return (
+    <div className="mb-4 p-4 bg-gray-50 rounded-lg border border-gray-200">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="font-medium text-gray-900">Column Profile</h3>
+        {mismatchCount > 0 && (
+          <span className="badge bg-amber-100 text-amber-700">
+            {mismatchCount} {mismatchCount === 1 ? 'column' : 'columns'} with suspected type mismatches
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-4">
+        <ul className="md:w-48 flex-shrink-0 max-h-96 overflow-y-auto divide-y divide-gray-200 border border-gray-200 rounded-lg bg-white">
+          {profiles.map(candidate => (
+            <li key={candidate.column}>
+              <button
+                onClick={() => setSelectedColumn(candidate.column)}
+                className={`w-full flex items-center justify-between gap-2 px-3 py-2 text-left text-sm hover:bg-gray-50 ${candidate === profile ? 'bg-primary-50 font-medium' : ''}`}
+              >
+                <span className="truncate">{candidate.column}</span>
+                {candidate.mismatch && (
+                  <span className="w-2 h-2 rounded-full bg-amber-500 flex-shrink-0" title="Suspected type mismatch" />
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex-1 space-y-4 min-w-0">
+          <div className="flex items-center gap-2">
+            <span className="font-medium text-gray-900">{profile.column}</span>
+            <span className="badge bg-gray-100 text-gray-700">{typeLabel(profile.type)}</span>
+          </div>
+
+          {profile.mismatch && (
+            <p className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-3">
+              {profile.mismatch.count} {profile.mismatch.count === 1 ? 'value does' : 'values do'} not look
+              like {typeLabel(profile.mismatch.expected).toLowerCase()}s
+              {profile.type === 'text' && ' in this mostly numeric column'}, e.g.{' '}
+              {profile.mismatch.examples.map(example => `"${example}"`).join(', ')}.
+            </p>
+          )}
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            <Stat label="Rows" value={profile.totalCount.toLocaleString()} />
+            <Stat
+              label="Empty"
+              value={`${profile.emptyCount.toLocaleString()} (${percent(profile.emptyCount, profile.totalCount)})`}
+            />
+            <Stat label="Distinct" value={profile.distinctCount.toLocaleString()} />
+            <Stat
+              label="Unique share"
+              value={percent(profile.distinctCount, profile.totalCount - profile.emptyCount)}
+            />
+            {profile.numeric && (
+              <>
+                <Stat label="Min" value={formatAggregate(profile.numeric.min)} />
+                <Stat label="Max" value={formatAggregate(profile.numeric.max)} />
+                <Stat label="Mean" value={formatAggregate(profile.numeric.mean)} />
+                <Stat label="Median" value={formatAggregate(profile.numeric.median)} />
+                <Stat label="Std. deviation" value={formatAggregate(profile.numeric.stddev)} />
+              </>
+            )}
+          </div>
+
+          {profile.histogram.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 mb-2">Distribution</h4>
+              <div className="flex items-end gap-1 h-32 p-2 bg-white border border-gray-200 rounded-lg">
+                {profile.histogram.map((bin, index) => (
+                  <div
+                    key={index}
+                    className="flex-1 bg-primary-400 hover:bg-primary-500 rounded-t"
+                    style={{ height: `${(bin.count / maxBinCount) * 100}%` }}
+                    title={`${formatAggregate(bin.from)} – ${formatAggregate(bin.to)}: ${bin.count}`}
+                  />
+                ))}
+              </div>
+              <div className="flex justify-between text-xs text-gray-500 mt-1">
+                <span>{formatAggregate(profile.histogram[0].from)}</span>
+                <span>{formatAggregate(profile.histogram[profile.histogram.length - 1].to)}</span>
+              </div>
+            </div>
+          )}
+
+          {profile.topValues.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 mb-2">Most Frequent Values</h4>
+              <ul className="space-y-1">
+                {profile.topValues.map(({ value, count }) => (
+                  <li key={value} className="flex items-center gap-2 text-sm">
+                    <span className="w-40 truncate text-gray-700" title={value}>{value}</span>
+                    <div className="flex-1 h-3 bg-gray-200 rounded">
+                      <div
+                        className="h-3 bg-primary-400 rounded"
+                        style={{ width: `${(count / maxValueCount) * 100}%` }}
+                      />
+                    </div>
+                    <span className="w-16 text-right text-gray-600 tabular-nums">{count.toLocaleString()}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnProfilePanel;
@@ -0,0 +1,127 @@
+import CommitInput from './CommitInput';
+import { ValidationRule, ValidationRuleKind, ValidationSeverity } from '../types/csv';
+import { compilePattern, createRule, RULE_KINDS } from '../utils/validation';
+
+interface ColumnRulesEditorProps {
+  column: string;
+  rules: ValidationRule[];
+  onChange: (rules: ValidationRule[]) => void;
+}
+
+const parseBound = (value: string): number | undefined =>
+  value.trim() === '' || !Number.isFinite(Number(value)) ? undefined : Number(value);
+
+const ColumnRulesEditor: React.FC<ColumnRulesEditorProps> = ({ column, rules, onChange }) => {
+  const updateRule = (index: number, rule: ValidationRule) => {
+    onChange(rules.map((existing, i) => (i === index ? rule : existing)));
+  };
+
+  const removeRule = (index: number) => {
+    onChange(rules.filter((_, i) => i !== index));
+  };
+
+  const addRule = (kind: ValidationRuleKind) => {
+    onChange([...rules, createRule(kind)]);
+  };
+
+  const renderParameters = (rule: ValidationRule, index: number) => {
+    switch (rule.kind) {
+      case 'pattern': {
+        const isInvalid = rule.pattern !== '' && compilePattern(rule.pattern) === null;
+        return (
+          <CommitInput
+            type="text"
+            value={rule.pattern}
+            onCommit={(pattern) => updateRule(index, { ...rule, pattern })}
+            placeholder="^[A-Z]{2}\d+$"
+            className={`input text-sm font-mono flex-1 ${isInvalid ? 'border-red-500' : ''}`}
+            title={isInvalid ? 'Invalid regular expression' : undefined}
+          />
+        );
+      }
+      case 'range':
+        return (
+          <div className="flex items-center gap-2 flex-1">
+            <CommitInput
+              type="number"
+              value={rule.min === undefined ? '' : String(rule.min)}
+              onCommit={(min) => updateRule(index, { ...rule, min: parseBound(min) })}
+              placeholder="Min"
+              className="input text-sm"
+            />
+            <span className="text-gray-400">–</span>
+            <CommitInput
+              type="number"
+              value={rule.max === undefined ? '' : String(rule.max)}
+              onCommit={(max) => updateRule(index, { ...rule, max: parseBound(max) })}
+              placeholder="Max"
+              className="input text-sm"
+            />
+          </div>
+        );
+      case 'allowedValues':
+        return (
+          <CommitInput
+            type="text"
+            value={rule.values.join(', ')}
+            onCommit={(values) => updateRule(index, {
+              ...rule,
+              values: values.split(',').map(value => value.trim()).filter(Boolean),
+            })}
+            placeholder="Comma-separated values"
+            className="input text-sm flex-1"
+          />
+        );
+      default:
+        return <div className="flex-1" />;
+    }
+  };
+
+  return (
+    <div className="mt-3 p-3 bg-white rounded-lg border border-gray-200">
+      <h4 className="text-sm font-medium text-gray-900 mb-2">Validation rules for {column}</h4>
+      {rules.length === 0 && (
+        <p className="text-sm text-gray-500 mb-2">No rules yet.</p>
+      )}
+      <div className="space-y-2">
+        {rules.map((rule, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-gray-700 w-32">
+              {RULE_KINDS.find(option => option.value === rule.kind)?.label}
+            </span>
+            {renderParameters(rule, index)}
+            <select
+              value={rule.severity}
+              onChange={(e) => updateRule(index, { ...rule, severity: e.target.value as ValidationSeverity })}
+              className="input text-sm w-28"
+            >
+              <option value="error">Block save</option>
+              <option value="warning">Warn</option>
+            </select>
+            <button
+              onClick={() => removeRule(index)}
+              className="p-1 text-red-500 hover:bg-red-50 rounded"
+              title="Remove rule"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        ))}
+      </div>
+      <select
+        value=""
+        onChange={(e) => e.target.value && addRule(e.target.value as ValidationRuleKind)}
+        className="input text-sm w-48 mt-3"
+      >
+        <option value="">+ Add rule...</option>
+        {RULE_KINDS.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default ColumnRulesEditor;
@@ -0,0 +1,301 @@
+import { useState } from 'react';
+import ColumnRulesEditor from './ColumnRulesEditor';
+import CommitInput from './CommitInput';
+import { ColumnSchema, ColumnType, ValidationRule } from '../types/csv';
+import { getColumnNameError } from '../utils/columnOps';
+import { COLUMN_TYPES } from '../utils/columnTypes';
+import { getFormulaError } from '../utils/computedColumns';
+import { FORMULA_FUNCTIONS } from '../utils/formula';
+
+interface ColumnSettingsPanelProps {
+  headers: string[];
+  schema: ColumnSchema;
+  onSchemaChange: (schema: ColumnSchema) => void;
+  onAddColumn: (name: string, defaultValue: string) => void;
+  onRenameColumn: (from: string, to: string) => void;
+  onDeleteColumn: (column: string) => void;
+  onMoveColumn: (column: string, toIndex: number) => void;
+  onToggleHidden: (column: string) => void;
+  onAddComputedColumn: (name: string, formula: string) => void;
+  onFormulaChange: (column: string, formula: string) => void;
+  onFreezeColumn: (column: string) => void;
+}
+
+const ColumnSettingsPanel: React.FC<ColumnSettingsPanelProps> = ({
+  headers,
+  schema,
+  onSchemaChange,
+  onAddColumn,
+  onRenameColumn,
+  onDeleteColumn,
+  onMoveColumn,
+  onToggleHidden,
+  onAddComputedColumn,
+  onFormulaChange,
+  onFreezeColumn,
+}) => {
+  const [rulesColumn, setRulesColumn] = useState<string | null>(null);
+  const [newColumnName, setNewColumnName] = useState('');
+  const [newColumnDefault, setNewColumnDefault] = useState('');
+  const [nameError, setNameError] = useState<string | null>(null);
+  const [computedName, setComputedName] = useState('');
+  const [computedFormula, setComputedFormula] = useState('');
+  const [showFunctions, setShowFunctions] = useState(false);
+  const [formulaError, setFormulaError] = useState<string | null>(null);
+
+  const overriddenCount = headers.filter(
+    header => schema[header] && schema[header].type !== schema[header].inferredType
+  ).length;
+
+  const handleTypeChange = (column: string, type: ColumnType) => {
+    onSchemaChange({
+      ...schema,
+      [column]: { ...schema[column], type },
+    });
+  };
+
+  const handleRulesChange = (column: string, rules: ValidationRule[]) => {
+    onSchemaChange({
+      ...schema,
+      [column]: { ...schema[column], rules },
+    });
+  };
+
+  const handleAdd = () => {
+    const error = getColumnNameError(headers, newColumnName);
+    setNameError(error);
+    if (error) return;
+    onAddColumn(newColumnName.trim(), newColumnDefault);
+    setNewColumnName('');
+    setNewColumnDefault('');
+  };
+
+  const handleAddComputed = () => {
+    const error = getColumnNameError(headers, computedName) || getFormulaError(computedFormula, headers);
+    setFormulaError(error);
+    if (error) return;
+    onAddComputedColumn(computedName.trim(), computedFormula);
+    setComputedName('');
+    setComputedFormula('');
+  };
+
+  const handleFormulaChange = (column: string, formula: string) => {
+    const error = getFormulaError(formula, headers, column);
+    setFormulaError(error ? `${column}: ${error}` : null);
+    if (error) return;
+    onFormulaChange(column, formula);
+  };
+
+  const handleRename = (column: string, name: string) => {
+    const error = getColumnNameError(headers, name, column);
+    setNameError(error);
+    if (error) return;
+    if (rulesColumn === column) {
+      setRulesColumn(name.trim());
+    }
+    onRenameColumn(column, name);
+  };
+
+  const handleDelete = (column: string) => {
+    if (rulesColumn === column) {
+      setRulesColumn(null);
+    }
+    onDeleteColumn(column);
+  };
+
+  const resetAll = () => {
+    const resetSchema: ColumnSchema = {};
+    Object.entries(schema).forEach(([column, definition]) => {
+      resetSchema[column] = { ...definition, type: definition.inferredType };
+    });
+    onSchemaChange(resetSchema);
+  };
+
+  return (
+    <div className="mb-4 p-4 bg-gray-50 rounded-lg border border-gray-200">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="font-medium text-gray-900">Column Settings</h3>
+        <button
+          onClick={resetAll}
+          disabled={overriddenCount === 0}
+          className="text-sm text-gray-500 hover:text-gray-700 disabled:opacity-50"
+        >
+          Reset to Detected Types
+        </button>
+      </div>
+      <div className="flex flex-col sm:flex-row sm:items-end gap-2 mb-3">
+        <label className="flex flex-col gap-1 flex-1">
+          <span className="text-sm text-gray-700">New Column</span>
+          <input
+            type="text"
+            value={newColumnName}
+            onChange={(e) => setNewColumnName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            placeholder="Column name"
+            className="input text-sm"
+          />
+        </label>
+        <label className="flex flex-col gap-1 flex-1">
+          <span className="text-sm text-gray-700">Default Value</span>
+          <input
+            type="text"
+            value={newColumnDefault}
+            onChange={(e) => setNewColumnDefault(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            placeholder="Leave empty for blank cells"
+            className="input text-sm"
+          />
+        </label>
+        <button onClick={handleAdd} className="btn btn-secondary">
+          Add Column
+        </button>
+      </div>
+      {nameError && (
+        <p className="text-sm text-red-600 mb-3">{nameError}</p>
+      )}
+      <div className="flex flex-col sm:flex-row sm:items-end gap-2 mb-3">
+        <label className="flex flex-col gap-1 sm:w-1/4">
+          <span className="text-sm text-gray-700">Computed Column</span>
+          <input
+            type="text"
+            value={computedName}
+            onChange={(e) => setComputedName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddComputed()}
+            placeholder="Column name"
+            className="input text-sm"
+          />
+        </label>
+        <label className="flex flex-col gap-1 flex-1">
+          <span className="text-sm text-gray-700">Formula</span>
+          <input
+            type="text"
+            value={computedFormula}
+            onChange={(e) => setComputedFormula(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddComputed()}
+            placeholder='e.g. [Unit Price] * Quantity or CONCAT(First, " ", Last)'
+            className="input text-sm font-mono"
+          />
+        </label>
+        <button onClick={handleAddComputed} className="btn btn-secondary">
+          Add Computed
+        </button>
+      </div>
+      <div className="mb-3 text-xs text-gray-500">
+        Refer to columns by name, or in [brackets] when the name has spaces. Operators: + - * / % ^, & joins text,
+        = &lt;&gt; &lt; &lt;= &gt; &gt;= compare.{' '}
+        <button onClick={() => setShowFunctions(!showFunctions)} className="text-primary-600 hover:underline">
+          {showFunctions ? 'Hide functions' : 'Show functions'}
+        </button>
+        {showFunctions && (
+          <ul className="mt-1 grid grid-cols-1 sm:grid-cols-2 gap-x-4 font-mono">
+            {FORMULA_FUNCTIONS.map(description => (
+              <li key={description}>{description}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {formulaError && (
+        <p className="text-sm text-red-600 mb-3">{formulaError}</p>
+      )}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-3">
+        {headers.map((header, index) => {
+          const column = schema[header];
+          const type = column?.type || 'text';
+          const isOverridden = column && column.type !== column.inferredType;
+
+          return (
+            <div key={header} className={`flex flex-col gap-1 ${column?.hidden ? 'opacity-60' : ''}`}>
+              <CommitInput
+                type="text"
+                value={header}
+                onCommit={(name) => handleRename(header, name)}
+                title="Rename column"
+                className="text-sm font-medium text-gray-700 bg-transparent border border-transparent rounded px-1 -mx-1 hover:border-gray-300 focus:border-primary-500 focus:outline-none"
+              />
+              <select
+                value={type}
+                onChange={(e) => handleTypeChange(header, e.target.value as ColumnType)}
+                className={`input text-sm ${isOverridden ? 'border-amber-400' : ''}`}
+              >
+                {COLUMN_TYPES.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              {column?.formula !== undefined && (
+                <div className="flex items-center gap-1">
+                  <span className="text-sm text-gray-500" title="Computed column">ƒ</span>
+                  <CommitInput
+                    type="text"
+                    value={column.formula}
+                    onCommit={(formula) => handleFormulaChange(header, formula)}
+                    title="Edit formula"
+                    className="input text-xs font-mono flex-1 min-w-0"
+                  />
+                  <button
+                    onClick={() => onFreezeColumn(header)}
+                    className="text-xs text-primary-600 hover:underline"
+                    title="Keep the current values and remove the formula"
+                  >
+                    Freeze
+                  </button>
+                </div>
+              )}
+              {column && (
+                <div className="flex justify-between items-center">
+                  <span className="text-xs text-gray-500">
+                    Detected: {COLUMN_TYPES.find(option => option.value === column.inferredType)?.label}
+                  </span>
+                  <button
+                    onClick={() => setRulesColumn(rulesColumn === header ? null : header)}
+                    className={`text-xs hover:underline ${rulesColumn === header ? 'text-primary-700 font-medium' : 'text-primary-600'}`}
+                  >
+                    Rules ({column.rules?.length || 0})
+                  </button>
+                </div>
+              )}
+              <div className="flex items-center gap-2 text-xs">
+                <button
+                  onClick={() => onMoveColumn(header, index - 1)}
+                  disabled={index === 0}
+                  className="text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                  title="Move left"
+                >
+                  ◀
+                </button>
+                <button
+                  onClick={() => onMoveColumn(header, index + 1)}
+                  disabled={index === headers.length - 1}
+                  className="text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                  title="Move right"
+                >
+                  ▶
+                </button>
+                <button
+                  onClick={() => onToggleHidden(header)}
+                  className="text-primary-600 hover:underline"
+                >
+                  {column?.hidden ? 'Show' : 'Hide'}
+                </button>
+                <button
+                  onClick={() => handleDelete(header)}
+                  className="text-red-600 hover:underline ml-auto"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      {rulesColumn && schema[rulesColumn] && (
+        <ColumnRulesEditor
+          column={rulesColumn}
+          rules={schema[rulesColumn].rules || []}
+          onChange={(rules) => handleRulesChange(rulesColumn, rules)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ColumnSettingsPanel;
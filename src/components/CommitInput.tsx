@@ -0,0 +1,26 @@
+type CommitInputProps = Omit<React.InputHTMLAttributes<HTMLInputElement>, 'value' | 'defaultValue' | 'onChange'> & {
+  value: string;
+  onCommit: (value: string) => void;
+};
+
+// For edits recorded in the undo history: commits on blur or Enter instead of
+// on every keystroke.
+const CommitInput: React.FC<CommitInputProps> = ({ value, onCommit, ...inputProps }) => (
+  <input
+    {...inputProps}
+    key={value}
+    defaultValue={value}
+    onBlur={(e) => {
+      if (e.target.value !== value) {
+        onCommit(e.target.value);
+      }
+    }}
+    onKeyDown={(e) => {
+      if (e.key === 'Enter') {
+        e.currentTarget.blur();
+      }
+    }}
+  />
+);
+
+export default CommitInput;
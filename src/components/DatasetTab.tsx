@@ -0,0 +1,316 @@
+import { useState, useEffect, useRef } from 'react';
+import CSVDataTable from './CSVDataTable';
+import ExportDialog from './ExportDialog';
+import { useHistory } from '../hooks/useHistory';
+import { useSessionAutosave } from '../hooks/useSessionAutosave';
+import { useValidationIssues } from '../hooks/useValidationIssues';
+import { ColumnSchema, CSVRow, DatasetState, HistorySnapshot } from '../types/csv';
+import { ExportOptions, ExportScope } from '../types/export';
+import { PivotTable } from '../types/pivot';
+import { ActiveSession } from '../types/session';
+import { Notification } from '../types/workspace';
+import { applySchema } from '../utils/columnTypes';
+import { recalculateFormulas, updateRow } from '../utils/computedColumns';
+import { serializeCSV } from '../utils/csvSerializer';
+import { convertToJSON, convertToNDJSON, convertToXLSX, downloadFile, getExportFormat } from '../utils/exporters';
+import { countRowIssues } from '../utils/validation';
+
+interface DatasetTabProps {
+  session: ActiveSession;
+  // Sessions of every open tab, which autosave must not evict.
+  openSessionIds: string[];
+  initialHistory: HistorySnapshot;
+  // Inactive tabs stay mounted so they keep their view state, but ignore
+  // keyboard shortcuts.
+  isActive: boolean;
+  onDirtyChange: (isDirty: boolean) => void;
+  onStateChange: (state: DatasetState) => void;
+  onNotify: (notification: Notification) => void;
+}
+
+const DatasetTab: React.FC<DatasetTabProps> = ({
+  session,
+  openSessionIds,
+  initialHistory,
+  isActive,
+  onDirtyChange,
+  onStateChange,
+  onNotify,
+}) => {
+  const history = useHistory(initialHistory);
+  const { data, headers, schema } = history.current.state;
+  const hasUnsavedChanges = history.isDirty;
+  const [showSaveDialog, setShowSaveDialog] = useState(false);
+  const [saveScope, setSaveScope] = useState<ExportScope>('all');
+  const [isSaving, setIsSaving] = useState(false);
+  const viewRowsRef = useRef<CSVRow[]>([]);
+  const pivotRef = useRef<PivotTable | null>(null);
+  const selectedRowsRef = useRef<CSVRow[]>([]);
+
+  useSessionAutosave(session, history.snapshot, openSessionIds, (error) => {
+    onNotify({
+      message: `Autosave of ${session.fileName} failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      severity: 'warning',
+    });
+  });
+
+  useEffect(() => {
+    onDirtyChange(hasUnsavedChanges);
+  }, [hasUnsavedChanges]);
+
+  useEffect(() => {
+    onStateChange(history.current.state);
+  }, [history.current.state]);
+
+  const validation = useValidationIssues(data, headers, schema);
+
+  // Every change goes through here so computed columns never go stale.
+  const pushState = (description: string, state: DatasetState) => {
+    history.push(description, recalculateFormulas(state, history.current.state));
+  };
+
+  const notifyDataUpdated = () => {
+    onNotify({
+      message: 'Data updated successfully',
+      severity: 'success',
+    });
+  };
+
+  const handleDataUpdate = (updatedData: CSVRow[], description = 'Edit data') => {
+    pushState(description, { data: updatedData, headers, schema });
+    notifyDataUpdated();
+  };
+
+  // Single cell edits skip diffing the whole dataset against the last state.
+  const handleRowUpdate = (position: number, row: CSVRow, description: string) => {
+    history.push(description, updateRow(history.current.state, position, row));
+    notifyDataUpdated();
+  };
+
+  const handleSchemaChange = (newSchema: ColumnSchema) => {
+    const changedColumns = headers.filter(
+      header => newSchema[header]?.type !== schema[header]?.type
+    );
+    const description = changedColumns.length === 0
+      ? 'Update validation rules'
+      : changedColumns.length === 1
+        ? `Change type of ${changedColumns[0]}`
+        : 'Change column types';
+    pushState(description, {
+      data: changedColumns.length > 0 ? applySchema(data, changedColumns, newSchema) : data,
+      headers,
+      schema: newSchema,
+    });
+  };
+
+  const handleColumnsChange = (state: DatasetState, description: string) => {
+    pushState(description, state);
+  };
+
+  const handleUndo = () => {
+    if (!history.canUndo) return;
+    onNotify({
+      message: `Undid: ${history.current.label}`,
+      severity: 'info',
+    });
+    history.undo();
+  };
+
+  const handleRedo = () => {
+    if (!history.canRedo) return;
+    onNotify({
+      message: `Redid: ${history.entries[history.index + 1].label}`,
+      severity: 'info',
+    });
+    history.redo();
+  };
+
+  const handleSave = (scope: ExportScope = 'all') => {
+    setSaveScope(scope);
+    setShowSaveDialog(true);
+  };
+
+  const getExportRows = (scope: ExportScope): CSVRow[] => {
+    switch (scope) {
+      case 'all':
+        return data;
+      case 'view':
+        return viewRowsRef.current;
+      case 'selection':
+        return selectedRowsRef.current;
+      case 'pivot':
+        return pivotRef.current?.data || [];
+    }
+  };
+
+  // Issues only block exports that include their rows. Pivots are built from
+  // the rows in view.
+  const getIssueCounts = (scope: ExportScope) =>
+    scope === 'all'
+      ? validation
+      : countRowIssues(validation.byRow, scope === 'pivot' ? viewRowsRef.current : getExportRows(scope));
+
+  const confirmSave = async (options: ExportOptions) => {
+    setIsSaving(true);
+    setShowSaveDialog(false);
+
+    try {
+      const pivot = options.scope === 'pivot' ? pivotRef.current : null;
+      const rows = getExportRows(options.scope);
+      if (rows.length === 0) {
+        throw new Error('No data to save');
+      }
+
+      const { errorCount, warningCount } = getIssueCounts(options.scope);
+      if (errorCount > 0) {
+        throw new Error(`${errorCount} cells violate blocking validation rules`);
+      }
+
+      if (warningCount > 0) {
+        onNotify({
+          message: `Warning: ${warningCount} cells have validation warnings.`,
+          severity: 'warning',
+        });
+      }
+
+      await new Promise(resolve => setTimeout(resolve, 1000));
+
+      const exportHeaders = pivot
+        ? pivot.headers
+        : options.includeHiddenColumns
+          ? headers
+          : headers.filter(header => !schema[header]?.hidden);
+      if (exportHeaders.length === 0) {
+        throw new Error('No columns to export');
+      }
+
+      // Pivot cells are already typed values.
+      const exportSchema = pivot ? {} : schema;
+      const format = getExportFormat(options.format);
+      let content: BlobPart;
+      switch (options.format) {
+        case 'csv':
+        case 'tsv': {
+          const delimiter = options.format === 'tsv' ? '\t' : options.delimiter;
+          const text = serializeCSV(rows, exportHeaders, {
+            delimiter,
+            lineEnding: options.lineEnding,
+            quoteAll: options.quoteAll,
+          });
+          content = options.includeBom ? `\uFEFF${text}` : text;
+          break;
+        }
+        case 'json':
+          content = convertToJSON(rows, exportHeaders, exportSchema);
+          break;
+        case 'ndjson':
+          content = convertToNDJSON(rows, exportHeaders, exportSchema);
+          break;
+        case 'xlsx':
+          content = convertToXLSX(rows, exportHeaders, exportSchema);
+          break;
+      }
+
+      downloadFile(content, `${options.fileName.trim() || 'export'}.${format.extension}`, format.mimeType);
+
+      onNotify({
+        message: `Successfully saved ${rows.length} rows to ${format.label} file!`,
+        severity: 'success',
+      });
+      if (options.scope === 'all') {
+        history.markSaved();
+      }
+
+    } catch (error) {
+      console.error('Save error:', error);
+      onNotify({
+        message: `Failed to save data: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        severity: 'error',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const cancelSave = () => {
+    setShowSaveDialog(false);
+  };
+
+  useEffect(() => {
+    if (!isActive) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key === 's') {
+        event.preventDefault();
+        if (data.length > 0 && !isSaving) {
+          handleSave();
+        }
+      }
+
+      // Leave Ctrl+Z inside form controls and editable content to the focused
+      // element.
+      const target = event.target as HTMLElement | null;
+      const isTextField = target instanceof HTMLInputElement
+        || target instanceof HTMLTextAreaElement
+        || target instanceof HTMLSelectElement
+        || !!target?.isContentEditable;
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'z' && !isTextField) {
+        event.preventDefault();
+        if (event.shiftKey) {
+          handleRedo();
+        } else {
+          handleUndo();
+        }
+      } else if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'y' && !isTextField) {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isActive, data.length, isSaving, history]);
+
+  return (
+    <>
+      <CSVDataTable
+        fileName={session.fileName}
+        data={data}
+        headers={headers}
+        schema={schema}
+        validation={validation}
+        onDataUpdate={handleDataUpdate}
+        onRowUpdate={handleRowUpdate}
+        onSchemaChange={handleSchemaChange}
+        onColumnsChange={handleColumnsChange}
+        onSave={handleSave}
+        hasUnsavedChanges={hasUnsavedChanges}
+        historyEntries={history.entries}
+        historyIndex={history.index}
+        onUndo={handleUndo}
+        onRedo={handleRedo}
+        onHistoryJump={history.jumpTo}
+        onViewChange={(rows) => { viewRowsRef.current = rows; }}
+        onPivotChange={(table) => { pivotRef.current = table; }}
+        onSelectionChange={(rows) => { selectedRowsRef.current = rows; }}
+      />
+
+      {showSaveDialog && (
+        <ExportDialog
+          headers={headers}
+          hiddenColumns={headers.filter(header => schema[header]?.hidden)}
+          totalRows={data.length}
+          viewRows={viewRowsRef.current.length}
+          selectedRows={selectedRowsRef.current.length}
+          initialScope={saveScope}
+          pivot={pivotRef.current}
+          isSaving={isSaving}
+          getIssueCounts={getIssueCounts}
+          onConfirm={confirmSave}
+          onCancel={cancelSave}
+        />
+      )}
+    </>
+  );
+};
+
+export default DatasetTab;
@@ -0,0 +1,242 @@
+import { useMemo, useState } from 'react';
+import { CSVRow } from '../types/csv';
+import { ClusterResolution, DedupeOptions, DedupeStrategy, DuplicateCluster } from '../types/dedupe';
+import { applyDedupe, DEDUPE_STRATEGIES, findDuplicateClusters, getMergeSources } from '../utils/dedupe';
+import { getRowId } from '../utils/rowIds';
+
+interface DedupeDialogProps {
+  data: CSVRow[];
+  headers: string[];
+  onApply: (data: CSVRow[], removed: number) => void;
+  onCancel: () => void;
+}
+
+const MAX_PREVIEW_CLUSTERS = 50;
+
+const DedupeDialog: React.FC<DedupeDialogProps> = ({ data, headers, onApply, onCancel }) => {
+  const [options, setOptions] = useState<DedupeOptions>({
+    columns: [],
+    trim: true,
+    ignoreCase: false,
+    normalizeWhitespace: false,
+  });
+  const [strategy, setStrategy] = useState<DedupeStrategy>('first');
+  // Per-cluster overrides of the default strategy, keyed by cluster key.
+  const [resolutions, setResolutions] = useState<Record<string, ClusterResolution>>({});
+
+  const updateOption = <K extends keyof DedupeOptions>(key: K, value: DedupeOptions[K]) => {
+    setOptions(prev => ({ ...prev, [key]: value }));
+    setResolutions({});
+  };
+
+  const toggleColumn = (column: string) => {
+    updateOption(
+      'columns',
+      options.columns.includes(column)
+        ? options.columns.filter(existing => existing !== column)
+        : headers.filter(header => header === column || options.columns.includes(header))
+    );
+  };
+
+  const clusters = useMemo(() => findDuplicateClusters(data, headers, options), [data, headers, options]);
+  const duplicateCount = clusters.reduce((sum, cluster) => sum + cluster.rows.length - 1, 0);
+
+  const getResolution = (cluster: DuplicateCluster): ClusterResolution =>
+    resolutions[cluster.key] || { strategy, picks: {} };
+
+  const setClusterStrategy = (cluster: DuplicateCluster, clusterStrategy: DedupeStrategy) => {
+    setResolutions(prev => ({ ...prev, [cluster.key]: { ...getResolution(cluster), strategy: clusterStrategy } }));
+  };
+
+  const pickValue = (cluster: DuplicateCluster, column: string, rowId: number) => {
+    const resolution = getResolution(cluster);
+    setResolutions(prev => ({
+      ...prev,
+      [cluster.key]: { strategy: 'merge', picks: { ...resolution.picks, [column]: rowId } },
+    }));
+  };
+
+  const handleApply = () => {
+    const result = applyDedupe(data, headers, clusters, getResolution);
+    onApply(result.data, result.removed);
+  };
+
+  const checkboxClass = 'w-4 h-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500';
+
+  const renderCluster = (cluster: DuplicateCluster) => {
+    const resolution = getResolution(cluster);
+    const isMerge = resolution.strategy === 'merge';
+    const keptId = resolution.strategy === 'last'
+      ? getRowId(cluster.rows[cluster.rows.length - 1])
+      : getRowId(cluster.rows[0]);
+    const mergeSources = isMerge ? getMergeSources(cluster.rows, headers, resolution.picks) : null;
+
+    return (
+      <div key={cluster.key} className="border border-gray-200 rounded-lg">
+        <div className="flex justify-between items-center px-3 py-2 bg-gray-50 border-b border-gray-200">
+          <span className="text-sm text-gray-700">{cluster.rows.length} rows</span>
+          <select
+            value={resolution.strategy}
+            onChange={(e) => setClusterStrategy(cluster, e.target.value as DedupeStrategy)}
+            className="input text-sm py-1"
+          >
+            {DEDUPE_STRATEGIES.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr>
+                {headers.map(header => (
+                  <th key={header} className="px-3 py-1 text-left font-medium text-gray-600 whitespace-nowrap">{header}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {cluster.rows.map(row => {
+                const rowId = getRowId(row);
+                const isDropped = !isMerge && rowId !== keptId;
+                return (
+                  <tr key={rowId} className={isDropped ? 'text-gray-400 line-through' : !isMerge ? 'bg-green-50' : ''}>
+                    {headers.map(header => {
+                      const isSource = mergeSources?.[header] === rowId;
+                      return (
+                        <td
+                          key={header}
+                          onClick={() => pickValue(cluster, header, rowId)}
+                          title="Click to keep this value"
+                          className={`px-3 py-1 whitespace-nowrap cursor-pointer hover:bg-gray-100 ${isSource ? 'bg-green-100 font-medium' : ''}`}
+                        >
+                          {String(row[header] ?? '')}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="fixed inset-0 bg-black/30 backdrop-blur-sm" onClick={onCancel} />
+        <div className="relative bg-white rounded-xl shadow-xl max-w-4xl w-full p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Remove Duplicates</h2>
+
+          <div className="space-y-4 mb-6">
+            <div>
+              <span className="text-sm font-medium text-gray-700">
+                Compare columns {options.columns.length === 0 && <span className="font-normal text-gray-500">(all)</span>}
+              </span>
+              <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1 max-h-24 overflow-y-auto">
+                {headers.map(header => (
+                  <label key={header} className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={options.columns.includes(header)}
+                      onChange={() => toggleColumn(header)}
+                      className={checkboxClass}
+                    />
+                    <span className="text-sm text-gray-700">{header}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-4">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={options.trim}
+                  onChange={(e) => updateOption('trim', e.target.checked)}
+                  className={checkboxClass}
+                />
+                <span className="text-sm text-gray-700">Trim spaces</span>
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={options.ignoreCase}
+                  onChange={(e) => updateOption('ignoreCase', e.target.checked)}
+                  className={checkboxClass}
+                />
+                <span className="text-sm text-gray-700">Ignore case</span>
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={options.normalizeWhitespace}
+                  onChange={(e) => updateOption('normalizeWhitespace', e.target.checked)}
+                  className={checkboxClass}
+                />
+                <span className="text-sm text-gray-700">Treat runs of whitespace as one space</span>
+              </label>
+            </div>
+
+            <label className="flex items-center gap-2">
+              <span className="text-sm font-medium text-gray-700">For each group</span>
+              <select
+                value={strategy}
+                onChange={(e) => {
+                  setStrategy(e.target.value as DedupeStrategy);
+                  setResolutions({});
+                }}
+                className="input text-sm"
+              >
+                {DEDUPE_STRATEGIES.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <p className="text-xs text-gray-500">
+              Merging fills each field from the first row that has a value. Click a cell to keep that value instead.
+            </p>
+
+            <div className="space-y-2">
+              <h3 className="font-medium text-gray-900">
+                Duplicates{' '}
+                <span className="text-sm text-gray-500">
+                  ({clusters.length} {clusters.length === 1 ? 'group' : 'groups'}, {duplicateCount} rows to remove)
+                </span>
+              </h3>
+              {clusters.length === 0 ? (
+                <p className="text-sm text-gray-500">No duplicate rows found.</p>
+              ) : (
+                <div className="max-h-96 overflow-y-auto space-y-3">
+                  {clusters.slice(0, MAX_PREVIEW_CLUSTERS).map(renderCluster)}
+                </div>
+              )}
+              {clusters.length > MAX_PREVIEW_CLUSTERS && (
+                <p className="text-xs text-gray-500">
+                  Showing the first {MAX_PREVIEW_CLUSTERS} of {clusters.length} groups; the rest use the default choice.
+                </p>
+              )}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <button onClick={onCancel} className="btn btn-secondary">
+              Cancel
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={duplicateCount === 0}
+              className="btn btn-primary"
+            >
+              Remove {duplicateCount} {duplicateCount === 1 ? 'Duplicate' : 'Duplicates'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DedupeDialog;
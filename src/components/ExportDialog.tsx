@@ -0,0 +1,238 @@
+import { useMemo, useState } from 'react';
+import { ExportFormat, ExportOptions, ExportScope } from '../types/export';
+import { PivotTable } from '../types/pivot';
+import { EXPORT_FORMATS, getExportFormat } from '../utils/exporters';
+
+interface ExportDialogProps {
+  headers: string[];
+  hiddenColumns: string[];
+  totalRows: number;
+  viewRows: number;
+  selectedRows: number;
+  initialScope?: ExportScope;
+  pivot: PivotTable | null;
+  isSaving: boolean;
+  // Issue totals for the rows a scope exports.
+  getIssueCounts: (scope: ExportScope) => { errorCount: number; warningCount: number };
+  onConfirm: (options: ExportOptions) => void;
+  onCancel: () => void;
+}
+
+const CSV_DELIMITERS = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '|', label: 'Pipe (|)' },
+];
+
+const ExportDialog: React.FC<ExportDialogProps> = ({
+  headers,
+  hiddenColumns,
+  totalRows,
+  viewRows,
+  selectedRows,
+  initialScope = 'all',
+  pivot,
+  isSaving,
+  getIssueCounts,
+  onConfirm,
+  onCancel,
+}) => {
+  const [options, setOptions] = useState<ExportOptions>({
+    format: 'csv',
+    scope: initialScope,
+    fileName: `updated_data_${new Date().toISOString().split('T')[0]}`,
+    delimiter: ',',
+    lineEnding: '\n',
+    includeBom: false,
+    quoteAll: false,
+    includeHiddenColumns: true,
+  });
+
+  const updateOption = <K extends keyof ExportOptions>(key: K, value: ExportOptions[K]) => {
+    setOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  const format = getExportFormat(options.format);
+  const isDelimited = options.format === 'csv' || options.format === 'tsv';
+  const isPivot = options.scope === 'pivot' && pivot !== null;
+  const scopeRowCounts: Record<ExportScope, number> = {
+    all: totalRows,
+    view: viewRows,
+    selection: selectedRows,
+    pivot: pivot?.data.length ?? 0,
+  };
+  const rowCount = scopeRowCounts[options.scope];
+  const { errorCount: blockingIssueCount, warningCount: warningIssueCount } = useMemo(
+    () => getIssueCounts(options.scope),
+    [options.scope]
+  );
+  const exportedHeaders = isPivot
+    ? pivot.headers
+    : options.includeHiddenColumns
+      ? headers
+      : headers.filter(header => !hiddenColumns.includes(header));
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="fixed inset-0 bg-black/30 backdrop-blur-sm" onClick={onCancel} />
+        <div className="relative bg-white rounded-xl shadow-xl max-w-lg w-full p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Export Data</h2>
+
+          <div className="space-y-4 mb-6">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <label className="flex flex-col gap-1">
+                <span className="text-sm font-medium text-gray-700">Format</span>
+                <select
+                  value={options.format}
+                  onChange={(e) => updateOption('format', e.target.value as ExportFormat)}
+                  className="input text-sm"
+                >
+                  {EXPORT_FORMATS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="flex flex-col gap-1">
+                <span className="text-sm font-medium text-gray-700">Rows</span>
+                <select
+                  value={options.scope}
+                  onChange={(e) => updateOption('scope', e.target.value as ExportOptions['scope'])}
+                  className="input text-sm"
+                >
+                  <option value="all">Full dataset ({totalRows})</option>
+                  <option value="view">Current filtered/sorted view ({viewRows})</option>
+                  {selectedRows > 0 && <option value="selection">Selected rows ({selectedRows})</option>}
+                  {pivot && <option value="pivot">Pivot table ({pivot.data.length})</option>}
+                </select>
+              </label>
+            </div>
+
+            <label className="flex flex-col gap-1">
+              <span className="text-sm font-medium text-gray-700">File Name</span>
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={options.fileName}
+                  onChange={(e) => updateOption('fileName', e.target.value)}
+                  className="input text-sm flex-1"
+                />
+                <span className="text-sm text-gray-500">.{format.extension}</span>
+              </div>
+            </label>
+
+            {hiddenColumns.length > 0 && !isPivot && (
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={options.includeHiddenColumns}
+                  onChange={(e) => updateOption('includeHiddenColumns', e.target.checked)}
+                  className="w-4 h-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                <span className="text-sm text-gray-700">
+                  Include hidden columns ({hiddenColumns.join(', ')})
+                </span>
+              </label>
+            )}
+
+            {isDelimited && (
+              <div className="p-3 bg-gray-50 rounded-lg border border-gray-200 space-y-3">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {options.format === 'csv' && (
+                    <label className="flex flex-col gap-1">
+                      <span className="text-sm font-medium text-gray-700">Delimiter</span>
+                      <select
+                        value={options.delimiter}
+                        onChange={(e) => updateOption('delimiter', e.target.value)}
+                        className="input text-sm"
+                      >
+                        {CSV_DELIMITERS.map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
+                  <label className="flex flex-col gap-1">
+                    <span className="text-sm font-medium text-gray-700">Line Endings</span>
+                    <select
+                      value={options.lineEnding}
+                      onChange={(e) => updateOption('lineEnding', e.target.value as ExportOptions['lineEnding'])}
+                      className="input text-sm"
+                    >
+                      <option value={'\n'}>LF (Unix, macOS)</option>
+                      <option value={'\r\n'}>CRLF (Windows)</option>
+                    </select>
+                  </label>
+                </div>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={options.includeBom}
+                    onChange={(e) => updateOption('includeBom', e.target.checked)}
+                    className="w-4 h-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  <span className="text-sm text-gray-700">Add UTF-8 BOM (helps Excel detect the encoding)</span>
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={options.quoteAll}
+                    onChange={(e) => updateOption('quoteAll', e.target.checked)}
+                    className="w-4 h-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  <span className="text-sm text-gray-700">Quote every field</span>
+                </label>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <h3 className="font-medium text-gray-900">Export Summary</h3>
+              <ul className="text-gray-600 text-sm space-y-1">
+                <li>• Rows: {rowCount}</li>
+                <li>• Columns: {exportedHeaders.length} ({exportedHeaders.join(', ')})</li>
+                <li>• File: {options.fileName || 'export'}.{format.extension}</li>
+              </ul>
+            </div>
+
+            {blockingIssueCount > 0 && (
+              <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-3">
+                {blockingIssueCount} cells violate blocking validation rules. Fix them before saving.
+              </p>
+            )}
+            {blockingIssueCount === 0 && warningIssueCount > 0 && (
+              <p className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-3">
+                {warningIssueCount} cells have validation warnings. You can still save.
+              </p>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={onCancel}
+              disabled={isSaving}
+              className="btn btn-secondary"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onConfirm(options)}
+              disabled={isSaving || blockingIssueCount > 0 || rowCount === 0 || exportedHeaders.length === 0}
+              className="btn btn-primary flex items-center gap-2"
+            >
+              {isSaving && (
+                <svg className="animate-spin h-4 w-4" fill="none" viewBox="0 0 24 24">
+                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+                </svg>
+              )}
+              {isSaving ? 'Saving...' : 'Export'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -1,54 +1,117 @@
-import { useRef, useState } from 'react';
-import Papa from 'papaparse';
+import { useEffect, useRef, useState } from 'react';
+import ImportWizard from './ImportWizard';
+import ParseDiagnostics from './ParseDiagnostics';
 import { CSVRow } from '../types/csv';
+import { ImportOptions, ParsedCSV, ParseProgress } from '../types/parser';
+import { DEFAULT_IMPORT_OPTIONS, detectImportOptions, isSupportedFile, SUPPORTED_EXTENSIONS } from '../utils/importOptions';
+import { parseCsvInWorker } from '../utils/parseCsvInWorker';
 
 interface FileUploadProps {
-  onDataLoad: (data: CSVRow[], headers: string[]) => void;
+  onDataLoad: (data: CSVRow[], headers: string[], fileName: string) => void;
 }
 
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
 const FileUpload: React.FC<FileUploadProps> = ({ onDataLoad }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [error, setError] = useState<string | null>(null);
   const [isDragOver, setIsDragOver] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [progress, setProgress] = useState<ParseProgress | null>(null);
+  const [pendingImport, setPendingImport] = useState<{ file: File; options: ImportOptions } | null>(null);
+  const [diagnostics, setDiagnostics] = useState<{
+    fileName: string;
+    result: ParsedCSV;
+    options: ImportOptions;
+  } | null>(null);
+  const cancelParseRef = useRef<(() => void) | null>(null);
 
-  const parseCSV = (file: File) => {
-    setIsLoading(true);
-    setError(null);
+  useEffect(() => () => cancelParseRef.current?.(), []);
 
-    Papa.parse(file, {
-      header: true,
-      skipEmptyLines: true,
-      complete: (results) => {
-        setIsLoading(false);
-        if (results.errors.length > 0) {
-          setError('Error parsing CSV file. Please check the file format.');
-          return;
-        }
+  const handleParsed = (file: File, result: ParsedCSV, options: ImportOptions) => {
+    if (result.data.length === 0) {
+      setError('CSV file is empty or has no valid data.');
+      return;
+    }
 
-        if (results.data.length === 0) {
-          setError('CSV file is empty or has no valid data.');
-          return;
-        }
+    if (result.errors.length > 0) {
+      setDiagnostics({ fileName: file.name, result, options });
+      return;
+    }
 
-        const headers = results.meta.fields || [];
-        const data = results.data as CSVRow[];
+    onDataLoad(result.data, result.fields, file.name);
+  };
 
-        onDataLoad(data, headers);
+  const handleDiagnosticsImport = (data: CSVRow[], headers: string[]) => {
+    const fileName = diagnostics?.fileName || 'Untitled';
+    setDiagnostics(null);
+    if (data.length === 0) {
+      setError('No rows left to import.');
+      return;
+    }
+    onDataLoad(data, headers, fileName);
+  };
+
+  const startParse = (file: File, importOptions: ImportOptions) => {
+    cancelParseRef.current?.();
+    setIsLoading(true);
+    setError(null);
+    setProgress(null);
+    setPendingImport(null);
+    setDiagnostics(null);
+
+    cancelParseRef.current = parseCsvInWorker(file, { importOptions }, {
+      onProgress: setProgress,
+      onComplete: (result) => {
+        cancelParseRef.current = null;
+        setIsLoading(false);
+        setProgress(null);
+        handleParsed(file, result, importOptions);
       },
-      error: (error: Error) => {
+      onError: (message) => {
+        cancelParseRef.current = null;
         setIsLoading(false);
-        setError(`Error reading file: ${error.message}`);
+        setProgress(null);
+        setError(`Error reading file: ${message}`);
       },
     });
   };
 
+  const parseCSV = async (file: File) => {
+    setError(null);
+    setDiagnostics(null);
+    try {
+      const options = await detectImportOptions(file);
+      setPendingImport({ file, options });
+    } catch (error) {
+      setError(`Error reading file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleCancelParse = () => {
+    cancelParseRef.current?.();
+    cancelParseRef.current = null;
+    setIsLoading(false);
+    setProgress(null);
+  };
+
+  const handleImportConfirm = (options: ImportOptions) => {
+    if (pendingImport) {
+      startParse(pendingImport.file, options);
+    }
+  };
+
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
+    event.target.value = '';
 
-    if (!file.name.toLowerCase().endsWith('.csv')) {
-      setError('Please select a valid CSV file');
+    if (!isSupportedFile(file)) {
+      setError('Please select a CSV, TSV or TXT file');
       return;
     }
 
@@ -76,8 +139,8 @@ const FileUpload: React.FC<FileUploadProps> = ({ onDataLoad }) => {
     const files = e.dataTransfer.files;
     if (files.length > 0) {
       const file = files[0];
-      if (!file.name.toLowerCase().endsWith('.csv')) {
-        setError('Please drop a valid CSV file');
+      if (!isSupportedFile(file)) {
+        setError('Please drop a CSV, TSV or TXT file');
         return;
       }
       parseCSV(file);
@@ -91,26 +154,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onDataLoad }) => {
     try {
       const response = await fetch('/sample-data.csv');
       const csvText = await response.text();
-      Papa.parse(csvText, {
-        header: true,
-        skipEmptyLines: true,
-        complete: (results) => {
-          setIsLoading(false);
-          if (results.errors.length > 0) {
-            setError('Error parsing sample CSV file.');
-            return;
-          }
-
-          const headers = results.meta.fields || [];
-          const data = results.data as CSVRow[];
-
-          onDataLoad(data, headers);
-        },
-        error: (error: Error) => {
-          setIsLoading(false);
-          setError(`Error reading sample file: ${error.message}`);
-        },
-      });
+      startParse(new File([csvText], 'sample-data.csv', { type: 'text/csv' }), DEFAULT_IMPORT_OPTIONS);
     } catch {
       setIsLoading(false);
       setError('Failed to load sample data. Please try uploading your own CSV file.');
@@ -157,7 +201,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onDataLoad }) => {
             <h3 className="text-lg font-medium text-gray-900 mb-1">
               {isDragOver ? 'Drop your CSV file here' : 'Drag & drop your CSV file here'}
             </h3>
-            <p className="text-gray-500 mb-4">or click to browse files</p>
+            <p className="text-gray-500 mb-4">or click to browse files (.csv, .tsv, .txt)</p>
             <button
               type="button"
               disabled={isLoading}
@@ -222,10 +266,52 @@ const FileUpload: React.FC<FileUploadProps> = ({ onDataLoad }) => {
         </div>
       </div>
 
+      {isLoading && (
+        <div className="mt-6 p-4 bg-white border border-gray-200 rounded-lg">
+          <div className="flex justify-between items-center mb-2">
+            <span className="text-sm font-medium text-gray-900">Parsing file...</span>
+            <button onClick={handleCancelParse} className="btn btn-secondary text-sm py-1">
+              Cancel
+            </button>
+          </div>
+          <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-primary-600 transition-all duration-200"
+              style={{ width: progress && progress.totalBytes > 0 ? `${(progress.bytesParsed / progress.totalBytes) * 100}%` : '0%' }}
+            />
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            {progress
+              ? `${progress.rowsParsed.toLocaleString()} rows · ${formatBytes(progress.bytesParsed)} of ${formatBytes(progress.totalBytes)}`
+              : 'Starting...'}
+          </p>
+        </div>
+      )}
+
+      {pendingImport && !isLoading && (
+        <ImportWizard
+          key={pendingImport.file.name + pendingImport.file.lastModified}
+          file={pendingImport.file}
+          detectedOptions={pendingImport.options}
+          onConfirm={handleImportConfirm}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+
+      {diagnostics && (
+        <ParseDiagnostics
+          fileName={diagnostics.fileName}
+          result={diagnostics.result}
+          options={diagnostics.options}
+          onImport={handleDiagnosticsImport}
+          onCancel={() => setDiagnostics(null)}
+        />
+      )}
+
       <input
         ref={fileInputRef}
         type="file"
-        accept=".csv"
+        accept={SUPPORTED_EXTENSIONS.join(',')}
         onChange={handleFileSelect}
         className="hidden"
       />
@@ -0,0 +1,330 @@
+import { useState } from 'react';
+import { ColumnSchema, ColumnType } from '../types/csv';
+import { FilterCondition, FilterGroup, FilterNode, SavedView } from '../types/filter';
+import {
+  addFilterNode,
+  createCondition,
+  createFilterGroup,
+  getConditionError,
+  getFilterOperators,
+  removeFilterNode,
+  updateFilterNode,
+} from '../utils/filters';
+
+interface FilterBuilderProps {
+  headers: string[];
+  schema: ColumnSchema;
+  filter: FilterGroup;
+  activeCount: number;
+  columnValueCounts: Record<string, Map<string, number>>;
+  savedViews: SavedView[];
+  savedViewsError: string | null;
+  onChange: (filter: FilterGroup) => void;
+  onClear: () => void;
+  onSaveView: (name: string) => void;
+  onApplyView: (view: SavedView) => void;
+  onDeleteView: (name: string) => void;
+}
+
+interface FilterGroupEditorProps {
+  group: FilterGroup;
+  depth: number;
+  headers: string[];
+  schema: ColumnSchema;
+  columnValueCounts: Record<string, Map<string, number>>;
+  onUpdate: (id: number, update: (node: FilterNode) => FilterNode) => void;
+  onAdd: (parentId: number, node: FilterNode) => void;
+  onRemove: (id: number) => void;
+}
+
+const MAX_SUGGESTIONS = 200;
+const MAX_GROUP_DEPTH = 3;
+
+const getType = (schema: ColumnSchema, column: string): ColumnType => schema[column]?.type || 'text';
+
+const FilterConditionEditor: React.FC<{
+  condition: FilterCondition;
+  headers: string[];
+  schema: ColumnSchema;
+  columnValueCounts: Record<string, Map<string, number>>;
+  onUpdate: (id: number, update: (node: FilterNode) => FilterNode) => void;
+  onRemove: (id: number) => void;
+}> = ({ condition, headers, schema, columnValueCounts, onUpdate, onRemove }) => {
+  const type = getType(schema, condition.column);
+  const operators = getFilterOperators(type);
+  const operator = operators.find(option => option.value === condition.operator);
+  const error = getConditionError(condition, type);
+  const isIncomplete = error === 'Enter a value';
+  const suggestionsId = `filter-values-${condition.id}`;
+
+  const update = (changes: Partial<FilterCondition>) => {
+    onUpdate(condition.id, node => ({ ...node, ...changes }) as FilterCondition);
+  };
+
+  const renderValueInput = (value: string, key: 'value' | 'valueTo', placeholder: string) =>
+    type === 'boolean' ? (
+      <select
+        value={value}
+        onChange={(e) => update({ [key]: e.target.value })}
+        className="input text-sm w-28"
+      >
+        <option value="">Choose...</option>
+        <option value="true">true</option>
+        <option value="false">false</option>
+      </select>
+    ) : (
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => update({ [key]: e.target.value })}
+        placeholder={placeholder}
+        list={key === 'value' ? suggestionsId : undefined}
+        className={`input text-sm w-40 ${error && !isIncomplete ? 'border-red-500' : ''}`}
+      />
+    );
+
+  const valuePlaceholder = condition.operator === 'inList'
+    ? 'a, b, c'
+    : type === 'date' ? 'YYYY-MM-DD' : 'Value';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={condition.column}
+        onChange={(e) => {
+          const column = e.target.value;
+          const nextOperators = getFilterOperators(getType(schema, column));
+          // Keep the operator when the new column's type supports it.
+          const keepOperator = nextOperators.some(option => option.value === condition.operator);
+          update({ column, operator: keepOperator ? condition.operator : nextOperators[0].value });
+        }}
+        className="input text-sm w-40"
+      >
+        {headers.map(header => (
+          <option key={header} value={header}>{header}</option>
+        ))}
+      </select>
+      <select
+        value={operator ? condition.operator : ''}
+        onChange={(e) => update({ operator: e.target.value as FilterCondition['operator'] })}
+        className="input text-sm w-40"
+      >
+        {!operator && <option value="">Choose...</option>}
+        {operators.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+      {operator && operator.operands > 0 && renderValueInput(condition.value, 'value', operator.operands === 2 ? 'From' : valuePlaceholder)}
+      {operator && operator.operands === 2 && (
+        <>
+          <span className="text-sm text-gray-500">and</span>
+          {renderValueInput(condition.valueTo, 'valueTo', 'To')}
+        </>
+      )}
+      <datalist id={suggestionsId}>
+        {Array.from(columnValueCounts[condition.column]?.keys() || []).slice(0, MAX_SUGGESTIONS).map(value => (
+          <option key={value} value={value} />
+        ))}
+      </datalist>
+      {error && !isIncomplete && (
+        <span className="text-xs text-red-600">{error}</span>
+      )}
+      <button
+        onClick={() => onRemove(condition.id)}
+        className="p-1 text-red-500 hover:bg-red-50 rounded"
+        title="Remove condition"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+        </svg>
+      </button>
+    </div>
+  );
+};
+
+const FilterGroupEditor: React.FC<FilterGroupEditorProps> = ({
+  group,
+  depth,
+  headers,
+  schema,
+  columnValueCounts,
+  onUpdate,
+  onAdd,
+  onRemove,
+}) => {
+  const addCondition = () => {
+    const column = headers[0];
+    if (column) {
+      onAdd(group.id, createCondition(column, getType(schema, column)));
+    }
+  };
+
+  return (
+    <div className={`space-y-2 ${depth > 0 ? 'p-3 border border-gray-300 rounded-lg bg-white' : ''}`}>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-gray-700">Match</span>
+        <select
+          value={group.combinator}
+          onChange={(e) => onUpdate(group.id, node => ({ ...node, combinator: e.target.value }) as FilterGroup)}
+          className="input text-sm w-24"
+        >
+          <option value="and">all</option>
+          <option value="or">any</option>
+        </select>
+        <span className="text-sm text-gray-700">of the following:</span>
+        {depth > 0 && (
+          <button
+            onClick={() => onRemove(group.id)}
+            className="text-sm text-red-600 hover:underline ml-auto"
+          >
+            Remove group
+          </button>
+        )}
+      </div>
+
+      {group.children.map(child => (
+        <div key={child.id} className="pl-4 border-l-2 border-gray-200">
+          {child.kind === 'group' ? (
+            <FilterGroupEditor
+              group={child}
+              depth={depth + 1}
+              headers={headers}
+              schema={schema}
+              columnValueCounts={columnValueCounts}
+              onUpdate={onUpdate}
+              onAdd={onAdd}
+              onRemove={onRemove}
+            />
+          ) : (
+            <FilterConditionEditor
+              condition={child}
+              headers={headers}
+              schema={schema}
+              columnValueCounts={columnValueCounts}
+              onUpdate={onUpdate}
+              onRemove={onRemove}
+            />
+          )}
+        </div>
+      ))}
+
+      <div className="flex gap-3 pl-4">
+        <button onClick={addCondition} className="text-sm text-primary-600 hover:underline">
+          + Condition
+        </button>
+        {depth < MAX_GROUP_DEPTH && (
+          <button
+            onClick={() => onAdd(group.id, createFilterGroup(group.combinator === 'and' ? 'or' : 'and'))}
+            className="text-sm text-primary-600 hover:underline"
+          >
+            + Group
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const FilterBuilder: React.FC<FilterBuilderProps> = ({
+  headers,
+  schema,
+  filter,
+  activeCount,
+  columnValueCounts,
+  savedViews,
+  savedViewsError,
+  onChange,
+  onClear,
+  onSaveView,
+  onApplyView,
+  onDeleteView,
+}) => {
+  const [viewName, setViewName] = useState('');
+  const [selectedView, setSelectedView] = useState('');
+
+  const handleSaveView = () => {
+    const name = viewName.trim();
+    if (!name) return;
+    onSaveView(name);
+    setSelectedView(name);
+    setViewName('');
+  };
+
+  return (
+    <div className="mb-4 p-4 bg-gray-50 rounded-lg border border-gray-200">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="font-medium text-gray-900">
+          Filters {activeCount > 0 && <span className="text-sm text-gray-500">({activeCount} active)</span>}
+        </h3>
+        <button
+          onClick={onClear}
+          disabled={filter.children.length === 0}
+          className="text-sm text-gray-500 hover:text-gray-700 disabled:opacity-50"
+        >
+          Clear All
+        </button>
+      </div>
+
+      <FilterGroupEditor
+        group={filter}
+        depth={0}
+        headers={headers}
+        schema={schema}
+        columnValueCounts={columnValueCounts}
+        onUpdate={(id, update) => onChange(updateFilterNode(filter, id, update))}
+        onAdd={(parentId, node) => onChange(addFilterNode(filter, parentId, node))}
+        onRemove={(id) => onChange(removeFilterNode(filter, id))}
+      />
+
+      <div className="flex flex-wrap items-center gap-2 mt-4 pt-3 border-t border-gray-200">
+        <span className="text-sm text-gray-700">Saved Views:</span>
+        <select
+          value={selectedView}
+          onChange={(e) => {
+            setSelectedView(e.target.value);
+            const view = savedViews.find(saved => saved.name === e.target.value);
+            if (view) onApplyView(view);
+          }}
+          disabled={savedViews.length === 0}
+          className="input text-sm w-48"
+        >
+          <option value="">{savedViews.length === 0 ? 'None saved' : 'Apply a view...'}</option>
+          {savedViews.map(view => (
+            <option key={view.name} value={view.name}>{view.name}</option>
+          ))}
+        </select>
+        {selectedView && savedViews.some(view => view.name === selectedView) && (
+          <button
+            onClick={() => {
+              onDeleteView(selectedView);
+              setSelectedView('');
+            }}
+            className="text-sm text-red-600 hover:underline"
+          >
+            Delete
+          </button>
+        )}
+        <input
+          type="text"
+          value={viewName}
+          onChange={(e) => setViewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSaveView()}
+          placeholder="View name"
+          className="input text-sm w-40 sm:ml-auto"
+        />
+        <button
+          onClick={handleSaveView}
+          disabled={!viewName.trim() || filter.children.length === 0}
+          className="btn btn-secondary"
+        >
+          Save View
+        </button>
+      </div>
+      {savedViewsError && (
+        <p className="text-sm text-red-600 mt-2">Saved views are unavailable: {savedViewsError}</p>
+      )}
+    </div>
+  );
+};
+
+export default FilterBuilder;
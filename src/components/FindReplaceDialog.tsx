@@ -0,0 +1,174 @@
+import { useMemo, useState } from 'react';
+import { CSVRow } from '../types/csv';
+import { FindReplaceOptions, ReplaceMatch } from '../types/findReplace';
+import { findMatches, getFindError } from '../utils/findReplace';
+
+interface FindReplaceDialogProps {
+  data: CSVRow[];
+  headers: string[];
+  initialFind?: string;
+  onReplace: (matches: ReplaceMatch[], options: FindReplaceOptions) => void;
+  onCancel: () => void;
+}
+
+const MAX_PREVIEW_MATCHES = 200;
+
+const FindReplaceDialog: React.FC<FindReplaceDialogProps> = ({ data, headers, initialFind = '', onReplace, onCancel }) => {
+  const [options, setOptions] = useState<FindReplaceOptions>({
+    find: initialFind,
+    replace: '',
+    columns: [],
+    matchCase: false,
+    wholeCell: false,
+    useRegex: false,
+  });
+
+  const updateOption = <K extends keyof FindReplaceOptions>(key: K, value: FindReplaceOptions[K]) => {
+    setOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  const toggleColumn = (column: string) => {
+    updateOption(
+      'columns',
+      options.columns.includes(column)
+        ? options.columns.filter(existing => existing !== column)
+        : headers.filter(header => header === column || options.columns.includes(header))
+    );
+  };
+
+  const error = getFindError(options);
+  const matches = useMemo(() => findMatches(data, headers, options), [data, headers, options]);
+  const changedCount = matches.filter(match => match.after !== match.before).length;
+
+  const checkboxClass = 'w-4 h-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500';
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="fixed inset-0 bg-black/30 backdrop-blur-sm" onClick={onCancel} />
+        <div className="relative bg-white rounded-xl shadow-xl max-w-2xl w-full p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Find & Replace</h2>
+
+          <div className="space-y-4 mb-6">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <label className="flex flex-col gap-1">
+                <span className="text-sm font-medium text-gray-700">Find</span>
+                <input
+                  type="text"
+                  value={options.find}
+                  onChange={(e) => updateOption('find', e.target.value)}
+                  placeholder={options.useRegex ? 'e.g. (\\w+)@example\\.com' : 'Text to find'}
+                  className={`input text-sm font-mono ${error && options.find ? 'border-red-500' : ''}`}
+                  autoFocus
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-sm font-medium text-gray-700">Replace with</span>
+                <input
+                  type="text"
+                  value={options.replace}
+                  onChange={(e) => updateOption('replace', e.target.value)}
+                  placeholder={options.useRegex ? 'e.g. $1@example.org' : 'Replacement'}
+                  className="input text-sm font-mono"
+                />
+              </label>
+            </div>
+
+            <div className="flex flex-wrap gap-4">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={options.matchCase}
+                  onChange={(e) => updateOption('matchCase', e.target.checked)}
+                  className={checkboxClass}
+                />
+                <span className="text-sm text-gray-700">Match case</span>
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={options.wholeCell}
+                  onChange={(e) => updateOption('wholeCell', e.target.checked)}
+                  className={checkboxClass}
+                />
+                <span className="text-sm text-gray-700">Match whole cell</span>
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={options.useRegex}
+                  onChange={(e) => updateOption('useRegex', e.target.checked)}
+                  className={checkboxClass}
+                />
+                <span className="text-sm text-gray-700">Regular expression ($1 inserts a capture group)</span>
+              </label>
+            </div>
+
+            <div>
+              <span className="text-sm font-medium text-gray-700">
+                Columns {options.columns.length === 0 && <span className="font-normal text-gray-500">(all)</span>}
+              </span>
+              <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1 max-h-24 overflow-y-auto">
+                {headers.map(header => (
+                  <label key={header} className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={options.columns.includes(header)}
+                      onChange={() => toggleColumn(header)}
+                      className={checkboxClass}
+                    />
+                    <span className="text-sm text-gray-700">{header}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="font-medium text-gray-900">
+                Preview {!error && <span className="text-sm text-gray-500">({matches.length} matching cells, {changedCount} will change)</span>}
+              </h3>
+              {error ? (
+                <p className="text-sm text-gray-500">{error}.</p>
+              ) : matches.length === 0 ? (
+                <p className="text-sm text-gray-500">No cells match.</p>
+              ) : (
+                <ul className="max-h-64 overflow-y-auto divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                  {matches.slice(0, MAX_PREVIEW_MATCHES).map(match => (
+                    <li key={`${match.rowId}-${match.column}`} className="flex items-center gap-3 px-3 py-2 text-sm">
+                      <span className="w-28 flex-shrink-0 truncate font-medium text-gray-700">{match.column}</span>
+                      <span className="flex-1 truncate text-red-700 line-through" title={match.before}>{match.before}</span>
+                      <span className="text-gray-400">→</span>
+                      <span className="flex-1 truncate text-green-700" title={match.after}>
+                        {match.after || <span className="italic text-gray-400">empty</span>}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {matches.length > MAX_PREVIEW_MATCHES && (
+                <p className="text-xs text-gray-500">
+                  Showing the first {MAX_PREVIEW_MATCHES} of {matches.length} matches.
+                </p>
+              )}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <button onClick={onCancel} className="btn btn-secondary">
+              Cancel
+            </button>
+            <button
+              onClick={() => onReplace(matches, options)}
+              disabled={error !== null || changedCount === 0}
+              className="btn btn-primary"
+            >
+              Replace All
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FindReplaceDialog;
@@ -0,0 +1,125 @@
+import { AggregateFunction } from '../types/aggregation';
+import { ColumnSchema } from '../types/csv';
+import { AGGREGATE_FUNCTIONS } from '../utils/aggregation';
+
+interface GroupByControlsProps {
+  headers: string[];
+  schema: ColumnSchema;
+  groupByColumns: string[];
+  aggregateColumns: string[];
+  aggregateFunctions: AggregateFunction[];
+  onGroupByChange: (columns: string[]) => void;
+  onAggregateColumnsChange: (columns: string[]) => void;
+  onAggregateFunctionsChange: (functions: AggregateFunction[]) => void;
+}
+
+const ColumnChips: React.FC<{ columns: string[]; separator: string; onRemove: (column: string) => void }> = ({
+  columns,
+  separator,
+  onRemove,
+}) => (
+  <>
+    {columns.map((column, index) => (
+      <span key={column} className="inline-flex items-center gap-1">
+        {index > 0 && <span className="text-xs text-gray-400">{separator}</span>}
+        <span className="badge bg-primary-100 text-primary-800 inline-flex items-center gap-1">
+          {column}
+          <button
+            onClick={() => onRemove(column)}
+            className="hover:text-primary-900"
+            title={`Remove ${column}`}
+          >
+            ×
+          </button>
+        </span>
+      </span>
+    ))}
+  </>
+);
+
+const GroupByControls: React.FC<GroupByControlsProps> = ({
+  headers,
+  schema,
+  groupByColumns,
+  aggregateColumns,
+  aggregateFunctions,
+  onGroupByChange,
+  onAggregateColumnsChange,
+  onAggregateFunctionsChange,
+}) => {
+  const numericColumns = headers.filter(header => {
+    const type = schema[header]?.type;
+    return type === 'number' || type === 'integer';
+  });
+  const groupOptions = headers.filter(header => !groupByColumns.includes(header));
+  const aggregateOptions = numericColumns.filter(header => !aggregateColumns.includes(header));
+
+  const toggleFunction = (fn: AggregateFunction) => {
+    onAggregateFunctionsChange(
+      aggregateFunctions.includes(fn)
+        ? aggregateFunctions.filter(existing => existing !== fn)
+        : AGGREGATE_FUNCTIONS.map(option => option.value).filter(value => value === fn || aggregateFunctions.includes(value))
+    );
+  };
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="text-sm text-gray-700">Group By:</label>
+        <ColumnChips
+          columns={groupByColumns}
+          separator="then"
+          onRemove={(column) => onGroupByChange(groupByColumns.filter(existing => existing !== column))}
+        />
+        {groupOptions.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => e.target.value && onGroupByChange([...groupByColumns, e.target.value])}
+            className="input text-sm w-40"
+          >
+            <option value="">{groupByColumns.length === 0 ? 'None' : 'Then by...'}</option>
+            {groupOptions.map(header => (
+              <option key={header} value={header}>{header}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="text-sm text-gray-700">Aggregate:</label>
+        <ColumnChips
+          columns={aggregateColumns}
+          separator=","
+          onRemove={(column) => onAggregateColumnsChange(aggregateColumns.filter(existing => existing !== column))}
+        />
+        {aggregateOptions.length > 0 ? (
+          <select
+            value=""
+            onChange={(e) => e.target.value && onAggregateColumnsChange([...aggregateColumns, e.target.value])}
+            className="input text-sm w-40"
+          >
+            <option value="">Add column...</option>
+            {aggregateOptions.map(header => (
+              <option key={header} value={header}>{header}</option>
+            ))}
+          </select>
+        ) : (
+          aggregateColumns.length === 0 && <span className="text-sm text-gray-400">No numeric columns</span>
+        )}
+        {aggregateColumns.length > 0 && AGGREGATE_FUNCTIONS.map(option => (
+          <label key={option.value} className="flex items-center gap-1 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={aggregateFunctions.includes(option.value)}
+              onChange={() => toggleFunction(option.value)}
+              className="w-4 h-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            <span className="text-sm text-gray-700">{option.label}</span>
+          </label>
+        ))}
+      </div>
+    </>
+  );
+};
+
+export default GroupByControls;
@@ -0,0 +1,49 @@
+import { HistoryEntry } from '../types/csv';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  currentIndex: number;
+  onJump: (index: number) => void;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, currentIndex, onJump }) => {
+  return (
+    <div className="mb-4 p-4 bg-gray-50 rounded-lg border border-gray-200">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="font-medium text-gray-900">History</h3>
+        <span className="text-sm text-gray-500">
+          {entries.length} {entries.length === 1 ? 'state' : 'states'}
+        </span>
+      </div>
+      <ol className="max-h-64 overflow-y-auto divide-y divide-gray-200 border border-gray-200 rounded-lg bg-white">
+        {entries.map((entry, index) => {
+          const isCurrent = index === currentIndex;
+          const isUndone = index > currentIndex;
+
+          return (
+            <li key={entry.id}>
+              <button
+                onClick={() => onJump(index)}
+                disabled={isCurrent}
+                className={`w-full flex justify-between items-center gap-3 px-3 py-2 text-left text-sm transition-colors ${
+                  isCurrent
+                    ? 'bg-primary-50 text-primary-700 font-medium'
+                    : isUndone
+                      ? 'text-gray-400 hover:bg-gray-50'
+                      : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <span className="truncate">{entry.label}</span>
+                <span className="text-xs text-gray-400 flex-shrink-0">
+                  {new Date(entry.timestamp).toLocaleTimeString()}
+                </span>
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,171 @@
+import { useEffect, useState } from 'react';
+import { ImportOptions, ParsedCSV } from '../types/parser';
+import { DELIMITER_OPTIONS, ENCODING_OPTIONS, QUOTE_OPTIONS } from '../utils/importOptions';
+import { parseCsvInWorker } from '../utils/parseCsvInWorker';
+
+interface ImportWizardProps {
+  file: File;
+  detectedOptions: ImportOptions;
+  onConfirm: (options: ImportOptions) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 20;
+
+const ImportWizard: React.FC<ImportWizardProps> = ({ file, detectedOptions, onConfirm, onCancel }) => {
+  const [options, setOptions] = useState<ImportOptions>(detectedOptions);
+  const [preview, setPreview] = useState<ParsedCSV | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  useEffect(() => {
+    setIsPreviewing(true);
+    setPreviewError(null);
+    const cancel = parseCsvInWorker(file, { importOptions: options, preview: PREVIEW_ROWS }, {
+      onComplete: (result) => {
+        setPreview(result);
+        setIsPreviewing(false);
+      },
+      onError: (message) => {
+        setPreview(null);
+        setPreviewError(message);
+        setIsPreviewing(false);
+      },
+    });
+    return cancel;
+  }, [file, options]);
+
+  const updateOption = <K extends keyof ImportOptions>(key: K, value: ImportOptions[K]) => {
+    setOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  const detectedLabel = (matches: boolean) => (matches ? ' (detected)' : '');
+
+  return (
+    <div className="mt-6 p-4 bg-white border border-gray-200 rounded-lg">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3 mb-4">
+        <div>
+          <h3 className="font-medium text-gray-900">Import Options: {file.name}</h3>
+          <p className="text-sm text-gray-500">
+            Settings were detected automatically. Adjust them until the preview looks right.
+          </p>
+        </div>
+        <div className="flex gap-3">
+          <button onClick={onCancel} className="btn btn-secondary">
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(options)}
+            disabled={isPreviewing || !preview || preview.fields.length === 0}
+            className="btn btn-primary"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3 mb-4">
+        <label className="flex flex-col gap-1">
+          <span className="text-sm font-medium text-gray-700">Delimiter</span>
+          <select
+            value={options.delimiter}
+            onChange={(e) => updateOption('delimiter', e.target.value)}
+            className="input text-sm"
+          >
+            {DELIMITER_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}{detectedLabel(option.value === detectedOptions.delimiter)}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex flex-col gap-1">
+          <span className="text-sm font-medium text-gray-700">Encoding</span>
+          <select
+            value={options.encoding}
+            onChange={(e) => updateOption('encoding', e.target.value)}
+            className="input text-sm"
+          >
+            {ENCODING_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}{detectedLabel(option.value === detectedOptions.encoding)}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex flex-col gap-1">
+          <span className="text-sm font-medium text-gray-700">Quote Character</span>
+          <select
+            value={options.quoteChar}
+            onChange={(e) => updateOption('quoteChar', e.target.value)}
+            className="input text-sm"
+          >
+            {QUOTE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex flex-col gap-1">
+          <span className="text-sm font-medium text-gray-700">Skip Leading Rows</span>
+          <input
+            type="number"
+            min={0}
+            value={options.skipRows}
+            onChange={(e) => updateOption('skipRows', Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+            className="input text-sm"
+          />
+        </label>
+
+        <label className="flex items-center gap-2 cursor-pointer sm:mt-6">
+          <input
+            type="checkbox"
+            checked={options.hasHeader}
+            onChange={(e) => updateOption('hasHeader', e.target.checked)}
+            className="w-4 h-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+          />
+          <span className="text-sm text-gray-700">First row is header</span>
+        </label>
+      </div>
+
+      {previewError && (
+        <p className="text-sm text-red-700 mb-3">Preview failed: {previewError}</p>
+      )}
+
+      {preview && (
+        <>
+          <p className="text-xs text-gray-500 mb-2">
+            {isPreviewing ? 'Updating preview...' : `Previewing the first ${preview.data.length} rows.`}
+            {preview.errors.length > 0 && (
+              <span className="text-amber-700"> {preview.errors.length} parse issues in these rows.</span>
+            )}
+          </p>
+          <div className={`overflow-auto max-h-80 border border-gray-200 rounded-lg ${isPreviewing ? 'opacity-60' : ''}`}>
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  {preview.fields.map((field) => (
+                    <th key={field} className="px-3 py-2 text-left font-medium text-gray-700 whitespace-nowrap">{field}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {preview.data.map((row, index) => (
+                  <tr key={index}>
+                    {preview.fields.map((field) => (
+                      <td key={field} className="px-3 py-1.5 text-gray-900 whitespace-nowrap">{String(row[field] ?? '')}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ImportWizard;
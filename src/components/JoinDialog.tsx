@@ -0,0 +1,240 @@
+import { useMemo, useState } from 'react';
+import { DatasetState } from '../types/csv';
+import { JoinConfig, JoinType } from '../types/join';
+import { OpenDataset } from '../types/workspace';
+import { analyzeJoin, getJoinError, JOIN_TYPES, joinDatasets } from '../utils/join';
+
+interface JoinDialogProps {
+  datasets: OpenDataset[];
+  onConfirm: (state: DatasetState, fileName: string) => void;
+  onCancel: () => void;
+}
+
+const getFileStem = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+// Starts from a column both files share, preferring an ID-like one.
+const createJoinConfig = (left: OpenDataset, right: OpenDataset, type: JoinType): JoinConfig => {
+  const shared = left.state.headers.filter(header => right.state.headers.includes(header));
+  const key = shared.find(header => /id$/i.test(header)) ?? shared[0];
+  return {
+    type,
+    leftKeys: [key ?? left.state.headers[0]],
+    rightKeys: [key ?? right.state.headers[0]],
+    leftPrefix: `${getFileStem(left.fileName)}_`,
+    rightPrefix: `${getFileStem(right.fileName)}_`,
+  };
+};
+
+const JoinDialog: React.FC<JoinDialogProps> = ({ datasets, onConfirm, onCancel }) => {
+  const [leftId, setLeftId] = useState(datasets[0].id);
+  const [rightId, setRightId] = useState(datasets[1].id);
+  const left = datasets.find(dataset => dataset.id === leftId) || datasets[0];
+  const right = datasets.find(dataset => dataset.id === rightId) || datasets[1];
+  const [config, setConfig] = useState<JoinConfig>(() => createJoinConfig(left, right, 'left'));
+
+  const error = left.id === right.id
+    ? 'Choose two different files'
+    : getJoinError(left.state.headers, right.state.headers, config);
+  const summary = useMemo(
+    () => (error ? null : analyzeJoin(left.state.data, right.state.data, config)),
+    [error, left, right, config]
+  );
+
+  const selectFiles = (nextLeftId: string, nextRightId: string) => {
+    setLeftId(nextLeftId);
+    setRightId(nextRightId);
+    const nextLeft = datasets.find(dataset => dataset.id === nextLeftId);
+    const nextRight = datasets.find(dataset => dataset.id === nextRightId);
+    if (nextLeft && nextRight) {
+      setConfig(createJoinConfig(nextLeft, nextRight, config.type));
+    }
+  };
+
+  const updateKey = (side: 'leftKeys' | 'rightKeys', index: number, column: string) => {
+    setConfig(prev => ({ ...prev, [side]: prev[side].map((key, i) => (i === index ? column : key)) }));
+  };
+
+  const addKey = () => {
+    setConfig(prev => ({
+      ...prev,
+      leftKeys: [...prev.leftKeys, left.state.headers[0]],
+      rightKeys: [...prev.rightKeys, right.state.headers[0]],
+    }));
+  };
+
+  const removeKey = (index: number) => {
+    setConfig(prev => ({
+      ...prev,
+      leftKeys: prev.leftKeys.filter((_, i) => i !== index),
+      rightKeys: prev.rightKeys.filter((_, i) => i !== index),
+    }));
+  };
+
+  const handleConfirm = () => {
+    if (error) return;
+    onConfirm(
+      joinDatasets(left.state, right.state, config),
+      `${getFileStem(left.fileName)}_${getFileStem(right.fileName)}_joined.csv`
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="fixed inset-0 bg-black/30 backdrop-blur-sm" onClick={onCancel} />
+        <div className="relative bg-white rounded-xl shadow-xl max-w-2xl w-full p-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Join Files</h2>
+
+          <div className="space-y-4 mb-6">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <label className="flex flex-col gap-1">
+                <span className="text-sm font-medium text-gray-700">Left File</span>
+                <select
+                  value={left.id}
+                  onChange={(e) => selectFiles(e.target.value, right.id)}
+                  className="input text-sm"
+                >
+                  {datasets.map(dataset => (
+                    <option key={dataset.id} value={dataset.id}>{dataset.fileName}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-sm font-medium text-gray-700">Right File</span>
+                <select
+                  value={right.id}
+                  onChange={(e) => selectFiles(left.id, e.target.value)}
+                  className="input text-sm"
+                >
+                  {datasets.map(dataset => (
+                    <option key={dataset.id} value={dataset.id}>{dataset.fileName}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <div className="space-y-2">
+              <span className="text-sm font-medium text-gray-700">Join Type</span>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {JOIN_TYPES.map(option => (
+                  <label
+                    key={option.value}
+                    className={`flex items-start gap-2 p-2 rounded-lg border cursor-pointer ${config.type === option.value ? 'border-primary-500 bg-primary-50' : 'border-gray-200'}`}
+                  >
+                    <input
+                      type="radio"
+                      name="join-type"
+                      checked={config.type === option.value}
+                      onChange={() => setConfig(prev => ({ ...prev, type: option.value }))}
+                      className="mt-1"
+                    />
+                    <span className="text-sm">
+                      <span className="font-medium text-gray-900">{option.label}</span>
+                      <span className="block text-xs text-gray-500">{option.description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <span className="text-sm font-medium text-gray-700">Key Columns</span>
+              {config.leftKeys.map((leftKey, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <select
+                    value={leftKey}
+                    onChange={(e) => updateKey('leftKeys', index, e.target.value)}
+                    className="input text-sm flex-1"
+                  >
+                    {left.state.headers.map(header => (
+                      <option key={header} value={header}>{header}</option>
+                    ))}
+                  </select>
+                  <span className="text-sm text-gray-500">=</span>
+                  <select
+                    value={config.rightKeys[index]}
+                    onChange={(e) => updateKey('rightKeys', index, e.target.value)}
+                    className="input text-sm flex-1"
+                  >
+                    {right.state.headers.map(header => (
+                      <option key={header} value={header}>{header}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => removeKey(index)}
+                    disabled={config.leftKeys.length === 1}
+                    className="text-sm text-red-600 hover:underline disabled:opacity-30"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+              <button onClick={addKey} className="text-sm text-primary-600 hover:underline">
+                + Add key column
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <label className="flex flex-col gap-1">
+                <span className="text-sm font-medium text-gray-700">Left Prefix</span>
+                <input
+                  type="text"
+                  value={config.leftPrefix}
+                  onChange={(e) => setConfig(prev => ({ ...prev, leftPrefix: e.target.value }))}
+                  className="input text-sm"
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-sm font-medium text-gray-700">Right Prefix</span>
+                <input
+                  type="text"
+                  value={config.rightPrefix}
+                  onChange={(e) => setConfig(prev => ({ ...prev, rightPrefix: e.target.value }))}
+                  className="input text-sm"
+                />
+              </label>
+            </div>
+            <p className="text-xs text-gray-500">
+              Prefixes are added to columns that exist in both files. Key columns with the same name are merged.
+            </p>
+
+            {error && (
+              <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-3">{error}</p>
+            )}
+            {summary && (
+              <div className="space-y-2">
+                <h3 className="font-medium text-gray-900">Join Summary</h3>
+                <ul className="text-gray-600 text-sm space-y-1">
+                  <li>• {left.fileName}: {summary.matchedLeftRows} matched, {summary.unmatchedLeftRows} unmatched rows</li>
+                  <li>• {right.fileName}: {summary.matchedRightRows} matched, {summary.unmatchedRightRows} unmatched rows</li>
+                  <li>• Result: {summary.resultRows} rows</li>
+                </ul>
+                {(summary.duplicateLeftKeys > 0 || summary.duplicateRightKeys > 0) && (
+                  <p className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-3">
+                    Duplicate keys: {summary.duplicateLeftKeys} in {left.fileName}, {summary.duplicateRightKeys} in{' '}
+                    {right.fileName}. Rows with a duplicate key are repeated once per match.
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <button onClick={onCancel} className="btn btn-secondary">
+              Cancel
+            </button>
+            <button
+              onClick={handleConfirm}
+              disabled={!summary || summary.resultRows === 0}
+              className="btn btn-primary"
+            >
+              Open Result in New Tab
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default JoinDialog;
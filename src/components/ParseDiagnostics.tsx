@@ -0,0 +1,184 @@
+import { useMemo, useState } from 'react';
+import Papa from 'papaparse';
+import { CSVRow } from '../types/csv';
+import { ImportOptions, ParsedCSV } from '../types/parser';
+
+interface ParseDiagnosticsProps {
+  fileName: string;
+  result: ParsedCSV;
+  options: ImportOptions;
+  onImport: (data: CSVRow[], headers: string[]) => void;
+  onCancel: () => void;
+}
+
+const MAX_LISTED_ISSUES = 500;
+
+const ParseDiagnostics: React.FC<ParseDiagnosticsProps> = ({
+  fileName,
+  result,
+  options,
+  onImport,
+  onCancel,
+}) => {
+  const [fixes, setFixes] = useState<Record<number, string>>({});
+  const [editingRow, setEditingRow] = useState<number | null>(null);
+
+  // Re-splits an edited raw line with the same settings the file was parsed with.
+  const parseFixedLine = (line: string): string[] =>
+    Papa.parse<string[]>(line, { delimiter: options.delimiter, quoteChar: options.quoteChar }).data[0] || [];
+
+  const fixedRows = useMemo(() => {
+    const rows = new Map<number, { row: CSVRow; valid: boolean }>();
+    Object.entries(fixes).forEach(([rowIndex, line]) => {
+      const cells = parseFixedLine(line);
+      const row: CSVRow = { ...result.data[Number(rowIndex)] };
+      result.fields.forEach((field, index) => {
+        row[field] = cells[index] ?? '';
+      });
+      rows.set(Number(rowIndex), { row, valid: cells.length === result.fields.length });
+    });
+    return rows;
+  }, [fixes, result]);
+
+  const badRows = useMemo(() => {
+    const rows = new Set<number>();
+    result.errors.forEach(issue => {
+      if (issue.row !== null && !fixedRows.get(issue.row)?.valid) {
+        rows.add(issue.row);
+      }
+    });
+    return rows;
+  }, [result, fixedRows]);
+
+  // Rows are built from the header's fields, so "Import Anyway" can't keep
+  // cells past the last column.
+  const overflowRows = useMemo(() => {
+    const rows = new Set<number>();
+    result.errors.forEach(issue => {
+      if (issue.code === 'TooManyFields' && issue.row !== null && badRows.has(issue.row)) {
+        rows.add(issue.row);
+      }
+    });
+    return rows.size;
+  }, [result, badRows]);
+
+  const withFixes = (data: CSVRow[]) =>
+    data.map((row, index) => fixedRows.get(index)?.row || row);
+
+  const handleImportAnyway = () => {
+    onImport(withFixes(result.data), result.fields);
+  };
+
+  const handleSkipBadRows = () => {
+    onImport(
+      withFixes(result.data).filter((_, index) => !badRows.has(index)),
+      result.fields
+    );
+  };
+
+  const fileLevelIssues = result.errors.filter(issue => issue.row === null).length;
+
+  return (
+    <div className="mt-6 p-4 bg-white border border-amber-200 rounded-lg">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3 mb-4">
+        <div>
+          <h3 className="font-medium text-gray-900">Parse Issues: {fileName}</h3>
+          <p className="text-sm text-gray-500">
+            {result.errors.length} issues found in {result.data.length.toLocaleString()} rows.
+            {' '}{badRows.size} rows still have unresolved issues.
+            {fileLevelIssues > 0 && ` ${fileLevelIssues} issues are not tied to a row.`}
+          </p>
+          {overflowRows > 0 && (
+            <p className="text-sm text-amber-700">
+              {overflowRows} {overflowRows === 1 ? 'row has' : 'rows have'} more fields than the header.
+              Importing anyway drops the extra values; fix or skip those rows to avoid losing them.
+            </p>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-3">
+          <button onClick={onCancel} className="btn btn-secondary">
+            Cancel
+          </button>
+          <button onClick={handleSkipBadRows} className="btn btn-warning">
+            Skip Bad Rows ({badRows.size})
+          </button>
+          <button onClick={handleImportAnyway} className="btn btn-primary">
+            Import Anyway
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-auto max-h-96 border border-gray-200 rounded-lg">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium text-gray-700 w-20">Line</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-700">Type</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-700">Message</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-700">Raw Line</th>
+              <th className="px-3 py-2 w-20" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {result.errors.slice(0, MAX_LISTED_ISSUES).map((issue, index) => {
+              const fix = issue.row !== null ? fixedRows.get(issue.row) : undefined;
+              const isEditing = issue.row !== null && editingRow === issue.row;
+
+              return (
+                <tr key={index} className={fix?.valid ? 'bg-green-50' : ''}>
+                  <td className="px-3 py-2 text-gray-700 tabular-nums">
+                    {issue.line ?? '—'}
+                  </td>
+                  <td className="px-3 py-2">
+                    <span className="badge bg-amber-100 text-amber-800">{issue.code}</span>
+                  </td>
+                  <td className="px-3 py-2 text-gray-600">{issue.message}</td>
+                  <td className="px-3 py-2 font-mono text-xs">
+                    {isEditing && issue.row !== null ? (
+                      <input
+                        type="text"
+                        value={fixes[issue.row] ?? issue.rawLine}
+                        onChange={(e) => setFixes(prev => ({ ...prev, [issue.row as number]: e.target.value }))}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter' || e.key === 'Escape') setEditingRow(null);
+                        }}
+                        autoFocus
+                        className={`w-full px-2 py-1 border rounded focus:outline-none focus:ring-2 ${fix && !fix.valid ? 'border-red-500 focus:ring-red-500' : 'border-primary-500 focus:ring-primary-500'}`}
+                      />
+                    ) : (
+                      <span className="text-gray-900 break-all">
+                        {issue.row !== null && fixes[issue.row] !== undefined ? fixes[issue.row] : issue.rawLine}
+                      </span>
+                    )}
+                    {fix && (
+                      <p className={`mt-1 font-sans ${fix.valid ? 'text-green-700' : 'text-red-600'}`}>
+                        {fix.valid ? 'Fixed' : `Still ${parseFixedLine(fixes[issue.row as number]).length} of ${result.fields.length} fields`}
+                      </p>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {issue.row !== null && (
+                      <button
+                        onClick={() => setEditingRow(isEditing ? null : issue.row)}
+                        className="text-sm text-primary-600 hover:underline"
+                      >
+                        {isEditing ? 'Done' : 'Fix'}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      {result.errors.length > MAX_LISTED_ISSUES && (
+        <p className="text-xs text-gray-500 mt-2">
+          Showing the first {MAX_LISTED_ISSUES} of {result.errors.length} issues.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ParseDiagnostics;
@@ -0,0 +1,240 @@
+import { useEffect, useMemo } from 'react';
+import { ColumnSchema, CSVRow } from '../types/csv';
+import { PivotConfig, PivotField, PivotTable, PivotValue } from '../types/pivot';
+import { formatAggregate } from '../utils/aggregation';
+import { computePivot, describePivotValue, MAX_PIVOT_COLUMN_KEYS, PIVOT_FUNCTIONS, pivotToTable } from '../utils/pivot';
+
+interface PivotViewProps {
+  data: CSVRow[];
+  headers: string[];
+  schema: ColumnSchema;
+  config: PivotConfig;
+  onConfigChange: (config: PivotConfig) => void;
+  onResultChange?: (table: PivotTable | null) => void;
+}
+
+const isNumericColumn = (schema: ColumnSchema, column: string) =>
+  schema[column]?.type === 'number' || schema[column]?.type === 'integer';
+
+const FieldList: React.FC<{
+  label: string;
+  fields: PivotField[];
+  options: string[];
+  schema: ColumnSchema;
+  onChange: (fields: PivotField[]) => void;
+}> = ({ label, fields, options, schema, onChange }) => (
+  <div className="flex flex-col gap-2">
+    <span className="text-sm font-medium text-gray-700">{label}</span>
+    {fields.map((field, index) => (
+      <div key={field.column} className="flex items-center gap-2">
+        <span className="badge bg-primary-100 text-primary-800">{field.column}</span>
+        {isNumericColumn(schema, field.column) && (
+          <input
+            type="number"
+            min={0}
+            value={field.binSize ?? ''}
+            onChange={(e) => {
+              const binSize = Number(e.target.value) > 0 ? Number(e.target.value) : null;
+              onChange(fields.map((existing, i) => (i === index ? { ...existing, binSize } : existing)));
+            }}
+            placeholder="Bin size"
+            title="Group numbers into bands of this width"
+            className="input text-sm w-24"
+          />
+        )}
+        <button
+          onClick={() => onChange(fields.filter((_, i) => i !== index))}
+          className="text-sm text-red-600 hover:underline"
+        >
+          Remove
+        </button>
+      </div>
+    ))}
+    {options.length > 0 && (
+      <select
+        value=""
+        onChange={(e) => e.target.value && onChange([...fields, { column: e.target.value, binSize: null }])}
+        className="input text-sm"
+      >
+        <option value="">Add field...</option>
+        {options.map(option => (
+          <option key={option} value={option}>{option}</option>
+        ))}
+      </select>
+    )}
+  </div>
+);
+
+const PivotView: React.FC<PivotViewProps> = ({ data, headers, schema, config, onConfigChange, onResultChange }) => {
+  const usedFields = [...config.rows, ...config.columns].map(field => field.column);
+  const fieldOptions = headers.filter(header => !usedFields.includes(header));
+
+  const pivot = useMemo(
+    () => (config.values.length > 0 ? computePivot(data, config, schema) : null),
+    [data, config, schema]
+  );
+
+  useEffect(() => {
+    onResultChange?.(pivot ? pivotToTable(pivot) : null);
+  }, [pivot]);
+
+  useEffect(() => () => onResultChange?.(null), []);
+
+  const updateValue = (index: number, value: PivotValue) => {
+    onConfigChange({ ...config, values: config.values.map((existing, i) => (i === index ? value : existing)) });
+  };
+
+  const valueGroups = pivot ? [...pivot.columnKeys.map(key => key.join(' / ')), 'Total'] : [];
+  const hasColumnGroups = pivot !== null && pivot.columnKeys.length > 0;
+  const rowHeaderCount = Math.max(1, config.rows.length);
+
+  const renderCells = (cells: (number | null)[][], bold = false) =>
+    cells.flatMap((group, groupIndex) =>
+      group.map((cell, valueIndex) => (
+        <td
+          key={`${groupIndex}-${valueIndex}`}
+          className={`px-4 py-2 text-right tabular-nums whitespace-nowrap ${groupIndex === cells.length - 1 || bold ? 'font-medium bg-gray-50' : ''}`}
+        >
+          {formatAggregate(cell)}
+        </td>
+      ))
+    );
+
+  return (
+    <div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4 p-4 bg-gray-50 rounded-lg border border-gray-200">
+        <FieldList
+          label="Rows"
+          fields={config.rows}
+          options={fieldOptions}
+          schema={schema}
+          onChange={(rows) => onConfigChange({ ...config, rows })}
+        />
+        <FieldList
+          label="Columns"
+          fields={config.columns}
+          options={fieldOptions}
+          schema={schema}
+          onChange={(columns) => onConfigChange({ ...config, columns })}
+        />
+        <div className="flex flex-col gap-2">
+          <span className="text-sm font-medium text-gray-700">Values</span>
+          {config.values.map((value, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <select
+                value={value.fn}
+                onChange={(e) => updateValue(index, { ...value, fn: e.target.value as PivotValue['fn'] })}
+                className="input text-sm w-28"
+              >
+                {PIVOT_FUNCTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <span className="text-sm text-gray-500">of</span>
+              <select
+                value={value.column}
+                onChange={(e) => updateValue(index, { ...value, column: e.target.value })}
+                className="input text-sm flex-1"
+              >
+                {headers.map(header => (
+                  <option key={header} value={header}>{header}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => onConfigChange({ ...config, values: config.values.filter((_, i) => i !== index) })}
+                className="text-sm text-red-600 hover:underline"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => {
+              const column = headers.find(header => isNumericColumn(schema, header)) || headers[0];
+              onConfigChange({
+                ...config,
+                values: [...config.values, { column, fn: isNumericColumn(schema, column) ? 'sum' : 'count' }],
+              });
+            }}
+            disabled={headers.length === 0}
+            className="text-sm text-primary-600 hover:underline self-start"
+          >
+            + Add value
+          </button>
+        </div>
+      </div>
+
+      {!pivot ? (
+        <p className="text-sm text-gray-500 text-center py-8">
+          Add at least one value field to build the pivot table.
+        </p>
+      ) : (
+        <>
+          {pivot.truncated && (
+            <p className="text-sm text-amber-700 mb-2">
+              Only the first {MAX_PIVOT_COLUMN_KEYS} column groups are shown. Use fewer or binned column fields.
+            </p>
+          )}
+          <div className="overflow-auto max-h-[600px] border border-gray-200 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 sticky top-0">
+                {hasColumnGroups && (
+                  <tr>
+                    <th
+                      colSpan={rowHeaderCount}
+                      className="px-4 py-2 text-left font-medium text-gray-500"
+                    >
+                      {pivot.columnFields.join(' / ')}
+                    </th>
+                    {valueGroups.map(group => (
+                      <th
+                        key={group}
+                        colSpan={pivot.values.length}
+                        className="px-4 py-2 text-center font-medium text-gray-700 border-l border-gray-200 whitespace-nowrap"
+                      >
+                        {group}
+                      </th>
+                    ))}
+                  </tr>
+                )}
+                <tr>
+                  {(config.rows.length > 0 ? pivot.rowFields : ['']).map(field => (
+                    <th key={field} className="px-4 py-2 text-left font-medium text-gray-700">{field}</th>
+                  ))}
+                  {valueGroups.flatMap(group =>
+                    pivot.values.map((value, index) => (
+                      <th
+                        key={`${group}-${index}`}
+                        className="px-4 py-2 text-right font-medium text-gray-700 whitespace-nowrap"
+                      >
+                        {describePivotValue(value)}
+                      </th>
+                    ))
+                  )}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {pivot.rowKeys.map((key, rowIndex) => (
+                  <tr key={rowIndex} className="hover:bg-gray-50">
+                    {(key.length > 0 ? key : ['All']).map((label, index) => (
+                      <td key={index} className="px-4 py-2 text-gray-900 whitespace-nowrap">{label}</td>
+                    ))}
+                    {renderCells(pivot.cells[rowIndex])}
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="border-t-2 border-gray-300">
+                <tr>
+                  <td colSpan={rowHeaderCount} className="px-4 py-2 font-medium text-gray-900 bg-gray-50">Total</td>
+                  {renderCells(pivot.totals, true)}
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PivotView;
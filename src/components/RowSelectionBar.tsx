@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { CellValue, ColumnSchema } from '../types/csv';
+import { parseValue } from '../utils/columnTypes';
+
+interface RowSelectionBarProps {
+  headers: string[];
+  schema: ColumnSchema;
+  selectedCount: number;
+  matchingCount: number;
+  onSelectAllMatching: () => void;
+  onClear: () => void;
+  onSetValue: (column: string, value: CellValue) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  onExport: () => void;
+}
+
+const RowSelectionBar: React.FC<RowSelectionBarProps> = ({
+  headers,
+  schema,
+  selectedCount,
+  matchingCount,
+  onSelectAllMatching,
+  onClear,
+  onSetValue,
+  onDuplicate,
+  onDelete,
+  onExport,
+}) => {
+  const [column, setColumn] = useState('');
+  const [value, setValue] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const targetColumn = headers.includes(column) ? column : headers[0];
+  const columnType = schema[targetColumn]?.type || 'text';
+
+  const handleSetValue = () => {
+    const parsed = parseValue(value, columnType);
+    if (parsed === null) {
+      setError(`Expected ${columnType === 'integer' ? 'an integer' : `a ${columnType}`} value`);
+      return;
+    }
+    onSetValue(targetColumn, parsed);
+    setValue('');
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 mb-4 p-3 bg-primary-50 border border-primary-200 rounded-lg">
+      <span className="text-sm font-medium text-primary-800">
+        {selectedCount} {selectedCount === 1 ? 'row' : 'rows'} selected
+      </span>
+      {selectedCount < matchingCount && (
+        <button onClick={onSelectAllMatching} className="text-sm text-primary-600 hover:underline">
+          Select all {matchingCount} matching rows
+        </button>
+      )}
+      <button onClick={onClear} className="text-sm text-gray-500 hover:text-gray-700">
+        Clear selection
+      </button>
+
+      <div className="flex items-center gap-2">
+        <label className="text-sm text-gray-700">Set</label>
+        <select
+          value={targetColumn}
+          onChange={(e) => {
+            setColumn(e.target.value);
+            setError(null);
+          }}
+          className="input text-sm w-36"
+        >
+          {headers.map(header => (
+            <option key={header} value={header}>{header}</option>
+          ))}
+        </select>
+        <label className="text-sm text-gray-700">to</label>
+        <input
+          type="text"
+          value={value}
+          onChange={(e) => {
+            setValue(e.target.value);
+            setError(null);
+          }}
+          onKeyDown={(e) => e.key === 'Enter' && handleSetValue()}
+          placeholder="Value"
+          className={`input text-sm w-32 ${error ? 'border-red-500' : ''}`}
+        />
+        <button onClick={handleSetValue} disabled={!targetColumn} className="btn btn-secondary">
+          Apply
+        </button>
+        {error && <span className="text-xs text-red-600">{error}</span>}
+      </div>
+
+      <div className="flex items-center gap-2 sm:ml-auto">
+        <button onClick={onDuplicate} className="btn btn-secondary">
+          Duplicate
+        </button>
+        <button onClick={onExport} className="btn btn-secondary">
+          Export Selection
+        </button>
+        <button onClick={onDelete} className="btn btn-danger">
+          Delete
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RowSelectionBar;
@@ -0,0 +1,68 @@
+import { RecentFile } from '../types/session';
+
+interface SessionRestoreProps {
+  recentFiles: RecentFile[];
+  isRestoring: boolean;
+  onRestore: (file: RecentFile) => void;
+  onDelete: (file: RecentFile) => void;
+}
+
+const SessionRestore: React.FC<SessionRestoreProps> = ({ recentFiles, isRestoring, onRestore, onDelete }) => {
+  const [latest] = recentFiles;
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3 mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Welcome Back</h2>
+          <p className="text-sm text-gray-500">
+            Your last session was {latest.fileName}, saved {new Date(latest.updatedAt).toLocaleString()}.
+            {latest.hasUnsavedChanges && ' It has changes that were never exported.'}
+          </p>
+        </div>
+        <button
+          onClick={() => onRestore(latest)}
+          disabled={isRestoring}
+          className="btn btn-primary"
+        >
+          {isRestoring ? 'Restoring...' : 'Restore previous session'}
+        </button>
+      </div>
+
+      <h3 className="font-medium text-gray-900 mb-2">Recent Files</h3>
+      <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+        {recentFiles.map(file => (
+          <li key={file.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 px-3 py-2 text-sm">
+            <div className="min-w-0">
+              <span className="font-medium text-gray-900 truncate">{file.fileName}</span>
+              {file.hasUnsavedChanges && (
+                <span className="badge bg-amber-100 text-amber-800 ml-2">Unsaved changes</span>
+              )}
+              <p className="text-xs text-gray-500">
+                {file.rowCount.toLocaleString()} rows × {file.columnCount} columns · opened {new Date(file.openedAt).toLocaleString()} · last edited {new Date(file.updatedAt).toLocaleString()}
+              </p>
+            </div>
+            <div className="flex gap-3 flex-shrink-0">
+              <button
+                onClick={() => onRestore(file)}
+                disabled={isRestoring}
+                className="text-sm text-primary-600 hover:underline disabled:opacity-50"
+              >
+                Open
+              </button>
+              <button
+                onClick={() => onDelete(file)}
+                disabled={isRestoring}
+                className="text-sm text-red-600 hover:underline disabled:opacity-50"
+              >
+                Remove
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SessionRestore;
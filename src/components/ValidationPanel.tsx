@@ -0,0 +1,55 @@
+import { ValidationIssue } from '../types/csv';
+
+interface ValidationPanelProps {
+  issues: ValidationIssue[];
+  onJump: (issue: ValidationIssue) => void;
+}
+
+const MAX_LISTED_ISSUES = 200;
+
+const ValidationPanel: React.FC<ValidationPanelProps> = ({ issues, onJump }) => {
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  const warningCount = issues.length - errorCount;
+  const sortedIssues = [...issues].sort((a, b) =>
+    a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1
+  );
+
+  return (
+    <div className="mb-4 p-4 bg-gray-50 rounded-lg border border-gray-200">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="font-medium text-gray-900">Validation</h3>
+        <div className="flex gap-2">
+          <span className="badge bg-red-100 text-red-700">{errorCount} blocking</span>
+          <span className="badge bg-amber-100 text-amber-700">{warningCount} warnings</span>
+        </div>
+      </div>
+      {issues.length === 0 ? (
+        <p className="text-sm text-gray-500">All cells pass their column rules.</p>
+      ) : (
+        <ul className="max-h-64 overflow-y-auto divide-y divide-gray-200 border border-gray-200 rounded-lg bg-white">
+          {sortedIssues.slice(0, MAX_LISTED_ISSUES).map((issue, index) => (
+            <li key={`${issue.rowId}-${issue.column}-${issue.kind}-${index}`}>
+              <button
+                onClick={() => onJump(issue)}
+                className="w-full flex items-center gap-3 px-3 py-2 text-left text-sm hover:bg-gray-50 transition-colors"
+              >
+                <span
+                  className={`w-2 h-2 rounded-full flex-shrink-0 ${issue.severity === 'error' ? 'bg-red-500' : 'bg-amber-500'}`}
+                />
+                <span className="font-medium text-gray-700">{issue.column}</span>
+                <span className="text-gray-600 truncate">{issue.message}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {issues.length > MAX_LISTED_ISSUES && (
+        <p className="text-xs text-gray-500 mt-2">
+          Showing the first {MAX_LISTED_ISSUES} of {issues.length} issues.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ValidationPanel;
@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { ActiveSession } from '../types/session';
+
+interface WorkspaceTabsProps {
+  sessions: ActiveSession[];
+  activeId: string | null;
+  dirtyIds: string[];
+  onSelect: (id: string) => void;
+  onClose: (id: string) => void;
+  // Workspace-wide actions, shown after the tabs.
+  children?: React.ReactNode;
+}
+
+const WorkspaceTabs: React.FC<WorkspaceTabsProps> = ({
+  sessions,
+  activeId,
+  dirtyIds,
+  onSelect,
+  onClose,
+  children,
+}) => {
+  const [pendingClose, setPendingClose] = useState<ActiveSession | null>(null);
+
+  const requestClose = (session: ActiveSession) => {
+    if (dirtyIds.includes(session.id)) {
+      setPendingClose(session);
+    } else {
+      onClose(session.id);
+    }
+  };
+
+  const confirmClose = () => {
+    if (pendingClose) {
+      onClose(pendingClose.id);
+    }
+    setPendingClose(null);
+  };
+
+  return (
+    <>
+      <div className="flex items-end gap-2 border-b border-gray-200 mb-4">
+        <div role="tablist" className="flex gap-1 overflow-x-auto flex-1">
+          {sessions.map(session => {
+            const isActive = session.id === activeId;
+            const isDirty = dirtyIds.includes(session.id);
+            return (
+              <div
+                key={session.id}
+                className={`flex items-center gap-2 px-3 py-2 -mb-px border-b-2 text-sm whitespace-nowrap ${isActive ? 'border-primary-600 text-primary-700 font-medium' : 'border-transparent text-gray-600 hover:text-gray-900'}`}
+              >
+                <button
+                  role="tab"
+                  aria-selected={isActive}
+                  onClick={() => onSelect(session.id)}
+                  title={session.fileName}
+                  className="max-w-xs truncate"
+                >
+                  {session.fileName}
+                </button>
+                {isDirty && (
+                  <span className="w-2 h-2 rounded-full bg-amber-500" title="Unsaved changes" />
+                )}
+                <button
+                  onClick={() => requestClose(session)}
+                  className="p-0.5 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded"
+                  title={`Close ${session.fileName}`}
+                >
+                  <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            );
+          })}
+        </div>
+        {children && <div className="flex gap-2 pb-1.5 flex-shrink-0">{children}</div>}
+      </div>
+
+      {pendingClose && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4">
+            <div className="fixed inset-0 bg-black/30 backdrop-blur-sm" onClick={() => setPendingClose(null)} />
+            <div className="relative bg-white rounded-xl shadow-xl max-w-md w-full p-6">
+              <h2 className="text-xl font-semibold text-gray-900 mb-2">Close {pendingClose.fileName}?</h2>
+              <p className="text-sm text-gray-600 mb-6">
+                This file has changes that were never exported. Closing the tab also discards its sort, filter
+                and grouping settings.
+              </p>
+              <div className="flex justify-end gap-3">
+                <button onClick={() => setPendingClose(null)} className="btn btn-secondary">
+                  Cancel
+                </button>
+                <button onClick={confirmClose} className="btn btn-danger">
+                  Close Anyway
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default WorkspaceTabs;
@@ -0,0 +1,132 @@
+import { useMemo, useRef } from 'react';
+import { CSVRow } from '../types/csv';
+import { diffRows, insertSorted, RowDiff } from '../utils/rowDiff';
+import { getRowId } from '../utils/rowIds';
+
+type ValueCounts = Record<string, Map<string, number>>;
+
+const sameDeps = (a: readonly unknown[], b: readonly unknown[]) =>
+  a.length === b.length && a.every((value, index) => Object.is(value, b[index]));
+
+const countKey = (row: CSVRow, header: string) => String(row[header] ?? '').trim();
+
+const adjustCounts = (counts: ValueCounts, headers: string[], row: CSVRow, delta: number) => {
+  headers.forEach(header => {
+    const key = countKey(row, header);
+    if (!key) return;
+    const columnCounts = counts[header];
+    const next = (columnCounts.get(key) || 0) + delta;
+    if (next > 0) {
+      columnCounts.set(key, next);
+    } else {
+      columnCounts.delete(key);
+    }
+  });
+};
+
+/**
+ * Maps each row ID to its position in `data`. In-place edits keep every row
+ * at the same position, so the previous map is reused for them.
+ */
+export const useRowPositions = (data: CSVRow[]): Map<number, number> => {
+  const cache = useRef<{ data: CSVRow[]; positions: Map<number, number> } | null>(null);
+
+  return useMemo(() => {
+    const previous = cache.current;
+    if (previous && previous.data.length === data.length && diffRows(previous.data, data)) {
+      cache.current = { data, positions: previous.positions };
+      return previous.positions;
+    }
+    const positions = new Map<number, number>();
+    data.forEach((row, index) => positions.set(getRowId(row), index));
+    cache.current = { data, positions };
+    return positions;
+  }, [data]);
+};
+
+/**
+ * Per-column counts of distinct non-empty values, patched with only the rows
+ * that changed since the previous render. The column maps are updated in
+ * place; a new outer object is returned so memoized consumers still refresh.
+ */
+export const useColumnValueCounts = (data: CSVRow[], headers: string[]): ValueCounts => {
+  const cache = useRef<{ data: CSVRow[]; headers: string[]; counts: ValueCounts } | null>(null);
+
+  return useMemo(() => {
+    const previous = cache.current;
+    const diff = previous && previous.headers === headers ? diffRows(previous.data, data) : null;
+
+    if (previous && diff) {
+      const counts: ValueCounts = { ...previous.counts };
+      diff.removed.forEach(row => adjustCounts(counts, headers, row, -1));
+      diff.added.forEach(row => adjustCounts(counts, headers, row, 1));
+      cache.current = { data, headers, counts };
+      return counts;
+    }
+
+    const counts: ValueCounts = {};
+    headers.forEach(header => {
+      counts[header] = new Map();
+    });
+    data.forEach(row => adjustCounts(counts, headers, row, 1));
+    cache.current = { data, headers, counts };
+    return counts;
+  }, [data, headers]);
+};
+
+const patchView = (
+  view: CSVRow[],
+  data: CSVRow[],
+  diff: RowDiff,
+  matches: (row: CSVRow) => boolean,
+  compare: ((a: CSVRow, b: CSVRow) => number) | null,
+): CSVRow[] => {
+  if (!compare) {
+    // Unsorted views follow data order, so walk data once and only run the
+    // predicate on rows that are new.
+    const kept = new Set(view);
+    return data.filter(row => (diff.added.has(row) ? matches(row) : kept.has(row)));
+  }
+
+  const patched = diff.removed.size > 0 ? view.filter(row => !diff.removed.has(row)) : [...view];
+  diff.added.forEach(row => {
+    if (matches(row)) {
+      insertSorted(patched, row, compare);
+    }
+  });
+  return patched;
+};
+
+/**
+ * Filtered and sorted view of `data`. When only the data changed (not the
+ * filter or sort, as tracked by `deps`), rows that were edited, added or
+ * removed are patched into the previous view instead of rescanning everything.
+ */
+export const useIncrementalView = (
+  data: CSVRow[],
+  matches: (row: CSVRow) => boolean,
+  compare: ((a: CSVRow, b: CSVRow) => number) | null,
+  deps: readonly unknown[],
+): CSVRow[] => {
+  const cache = useRef<{ data: CSVRow[]; deps: readonly unknown[]; view: CSVRow[] } | null>(null);
+
+  return useMemo(() => {
+    const previous = cache.current;
+    const canPatch = previous && sameDeps(previous.deps, deps);
+    if (canPatch && previous.data === data) {
+      return previous.view;
+    }
+
+    const diff = canPatch ? diffRows(previous.data, data) : null;
+    let view: CSVRow[];
+    if (previous && diff) {
+      view = patchView(previous.view, data, diff, matches, compare);
+    } else {
+      view = data.filter(matches);
+      if (compare) view.sort(compare);
+    }
+
+    cache.current = { data, deps, view };
+    return view;
+  }, [data, ...deps]);
+};
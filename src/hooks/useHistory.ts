@@ -0,0 +1,105 @@
+import { useCallback, useReducer } from 'react';
+import { DatasetState, HistoryEntry, HistorySnapshot } from '../types/csv';
+
+export const MAX_HISTORY_ENTRIES = 100;
+
+type HistoryState = HistorySnapshot;
+
+type HistoryAction =
+  | { type: 'reset'; label: string; state: DatasetState }
+  | { type: 'restore'; history: HistorySnapshot }
+  | { type: 'push'; label: string; state: DatasetState }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'jump'; index: number }
+  | { type: 'markSaved' };
+
+let nextEntryId = 1;
+
+const createEntry = (label: string, state: DatasetState): HistoryEntry => ({
+  id: nextEntryId++,
+  label,
+  timestamp: Date.now(),
+  state,
+});
+
+/** A fresh history whose only entry is `state`, counted as saved. */
+export const createHistory = (label: string, state: DatasetState): HistorySnapshot => {
+  const entry = createEntry(label, state);
+  return { entries: [entry], index: 0, savedId: entry.id };
+};
+
+// Keeps new entry IDs clear of the restored ones.
+const reserveEntryIds = (snapshot: HistorySnapshot) => {
+  snapshot.entries.forEach(entry => {
+    nextEntryId = Math.max(nextEntryId, entry.id + 1);
+  });
+};
+
+const historyReducer = (history: HistoryState, action: HistoryAction): HistoryState => {
+  switch (action.type) {
+    case 'reset':
+      return createHistory(action.label, action.state);
+    case 'restore':
+      return action.history;
+    case 'push': {
+      // Recording a new change discards any redo branch.
+      const entries = [...history.entries.slice(0, history.index + 1), createEntry(action.label, action.state)];
+      const overflow = Math.max(0, entries.length - MAX_HISTORY_ENTRIES);
+      return { ...history, entries: entries.slice(overflow), index: entries.length - 1 - overflow };
+    }
+    case 'undo':
+      return { ...history, index: Math.max(0, history.index - 1) };
+    case 'redo':
+      return { ...history, index: Math.min(history.entries.length - 1, history.index + 1) };
+    case 'jump':
+      if (action.index < 0 || action.index >= history.entries.length) {
+        return history;
+      }
+      return { ...history, index: action.index };
+    case 'markSaved':
+      return { ...history, savedId: history.entries[history.index].id };
+  }
+};
+
+/**
+ * Bounded snapshot history of the working dataset. Rows are immutable, so each
+ * snapshot only copies the row array, not the rows themselves.
+ */
+export const useHistory = (initial?: HistorySnapshot) => {
+  const [history, dispatch] = useReducer(historyReducer, initial, (snapshot) => {
+    if (snapshot) {
+      reserveEntryIds(snapshot);
+      return snapshot;
+    }
+    return createHistory('Empty', { data: [], headers: [], schema: {} });
+  });
+
+  const reset = useCallback((label: string, state: DatasetState) => dispatch({ type: 'reset', label, state }), []);
+  const restore = useCallback((snapshot: HistorySnapshot) => {
+    reserveEntryIds(snapshot);
+    dispatch({ type: 'restore', history: snapshot });
+  }, []);
+  const push = useCallback((label: string, state: DatasetState) => dispatch({ type: 'push', label, state }), []);
+  const undo = useCallback(() => dispatch({ type: 'undo' }), []);
+  const redo = useCallback(() => dispatch({ type: 'redo' }), []);
+  const jumpTo = useCallback((index: number) => dispatch({ type: 'jump', index }), []);
+  const markSaved = useCallback(() => dispatch({ type: 'markSaved' }), []);
+
+  return {
+    snapshot: history,
+    entries: history.entries,
+    index: history.index,
+    current: history.entries[history.index],
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length - 1,
+    isDirty: history.entries[history.index].id !== history.savedId,
+    reset,
+    restore,
+    push,
+    undo,
+    redo,
+    jumpTo,
+    markSaved,
+  };
+};
@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState } from 'react';
+import { FilterGroup, SavedView } from '../types/filter';
+import { deleteSavedView, listSavedViews, putSavedView } from '../utils/savedViewsStore';
+
+/**
+ * Named filter views stored in IndexedDB. The list is updated optimistically;
+ * a failed write is reported through `error` and the list reloaded.
+ */
+export const useSavedViews = () => {
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(() => {
+    listSavedViews().then(setViews).catch(() => setViews([]));
+  }, []);
+
+  useEffect(reload, [reload]);
+
+  const handleFailure = useCallback((failure: unknown) => {
+    setError(failure instanceof Error ? failure.message : 'Unknown error');
+    reload();
+  }, [reload]);
+
+  const saveView = useCallback((name: string, filter: FilterGroup) => {
+    const view: SavedView = { name, filter, createdAt: Date.now() };
+    setError(null);
+    setViews(prev => [...prev.filter(existing => existing.name !== name), view]
+      .sort((a, b) => a.name.localeCompare(b.name)));
+    putSavedView(view).catch(handleFailure);
+  }, [handleFailure]);
+
+  const removeView = useCallback((name: string) => {
+    setError(null);
+    setViews(prev => prev.filter(view => view.name !== name));
+    deleteSavedView(name).catch(handleFailure);
+  }, [handleFailure]);
+
+  return { views, error, saveView, removeView };
+};
@@ -0,0 +1,58 @@
+import { useEffect, useRef } from 'react';
+import { HistorySnapshot } from '../types/csv';
+import { ActiveSession, StoredHistoryState } from '../types/session';
+import { saveSession } from '../utils/sessionStore';
+
+export const AUTOSAVE_DELAY_MS = 1000;
+
+/**
+ * Writes the working dataset and its edit history to IndexedDB shortly after
+ * each change. Saves run one at a time, and each writes only the history
+ * entries added since the last one that succeeded. Only the first failure is
+ * reported, so a full or blocked database doesn't raise a notification on
+ * every edit.
+ */
+export const useSessionAutosave = (
+  session: ActiveSession | null,
+  snapshot: HistorySnapshot,
+  openSessionIds: string[],
+  onError: (error: unknown) => void,
+) => {
+  const onErrorRef = useRef(onError);
+  const openSessionIdsRef = useRef(openSessionIds);
+  const hasFailedRef = useRef(false);
+  const storedRef = useRef<StoredHistoryState | null>(null);
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+  onErrorRef.current = onError;
+  openSessionIdsRef.current = openSessionIds;
+
+  useEffect(() => {
+    if (!session) return;
+
+    const timer = window.setTimeout(() => {
+      const current = snapshot.entries[snapshot.index];
+      queueRef.current = queueRef.current
+        .then(() => saveSession({
+          ...session,
+          rowCount: current.state.data.length,
+          columnCount: current.state.headers.length,
+          hasUnsavedChanges: current.id !== snapshot.savedId,
+          updatedAt: Date.now(),
+        }, snapshot, storedRef.current, openSessionIdsRef.current))
+        .then((stored) => {
+          storedRef.current = stored;
+          hasFailedRef.current = false;
+        })
+        .catch((error) => {
+          // What is stored is no longer known, so the next save rewrites it.
+          storedRef.current = null;
+          if (!hasFailedRef.current) {
+            hasFailedRef.current = true;
+            onErrorRef.current(error);
+          }
+        });
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => window.clearTimeout(timer);
+  }, [session, snapshot]);
+};
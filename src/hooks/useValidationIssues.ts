@@ -0,0 +1,106 @@
+import { useMemo, useRef } from 'react';
+import { ColumnSchema, CSVRow, ValidationIndex, ValidationIssue } from '../types/csv';
+import { createFormulaChecker } from '../utils/computedColumns';
+import { diffRows } from '../utils/rowDiff';
+import { getRowId } from '../utils/rowIds';
+import { createRowValidator, getValueKey, indexUniqueValues, UniqueValueIndex } from '../utils/validation';
+
+interface ValidationCache {
+  data: CSVRow[];
+  headers: string[];
+  schema: ColumnSchema;
+  uniqueValues: UniqueValueIndex;
+  check: (row: CSVRow) => ValidationIssue[];
+  index: ValidationIndex;
+}
+
+const setRowIssues = (index: ValidationIndex, rowId: number, issues: ValidationIssue[]) => {
+  const count = (rowIssues: ValidationIssue[], delta: number) => {
+    rowIssues.forEach(issue => {
+      if (issue.severity === 'error') {
+        index.errorCount += delta;
+      } else {
+        index.warningCount += delta;
+      }
+    });
+  };
+  count(index.byRow.get(rowId) || [], -1);
+  count(issues, 1);
+  if (issues.length > 0) {
+    index.byRow.set(rowId, issues);
+  } else {
+    index.byRow.delete(rowId);
+  }
+};
+
+/**
+ * Moves edited, added and removed rows in the unique value index and returns
+ * the rows whose `unique` result may have changed: the changed rows, plus the
+ * other rows of any value that gained or lost its second row.
+ */
+const patchUniqueValues = (uniqueValues: UniqueValueIndex, removed: Set<CSVRow>, added: Set<CSVRow>): Set<CSVRow> => {
+  const recheck = new Set(added);
+  uniqueValues.forEach((rowsByValue, column) => {
+    const sizesBefore = new Map<string, number>();
+    const update = (row: CSVRow, isAdded: boolean) => {
+      const key = getValueKey(row[column]);
+      if (key === null) return;
+      const rows = rowsByValue.get(key) || new Set<CSVRow>();
+      if (!sizesBefore.has(key)) sizesBefore.set(key, rows.size);
+      if (isAdded) {
+        rows.add(row);
+        rowsByValue.set(key, rows);
+      } else {
+        rows.delete(row);
+        if (rows.size === 0) rowsByValue.delete(key);
+      }
+    };
+    removed.forEach(row => update(row, false));
+    added.forEach(row => update(row, true));
+
+    sizesBefore.forEach((before, key) => {
+      const rows = rowsByValue.get(key);
+      if (rows && (before > 1) !== (rows.size > 1)) {
+        rows.forEach(row => recheck.add(row));
+      }
+    });
+  });
+  return recheck;
+};
+
+/**
+ * Validation and formula issues for every row. While the columns and schema
+ * stay the same, only rows that changed since the previous render (and rows
+ * sharing a `unique` value with them) are rechecked. The row map is updated in
+ * place; a new index object is returned so memoized consumers still refresh.
+ */
+export const useValidationIssues = (data: CSVRow[], headers: string[], schema: ColumnSchema): ValidationIndex => {
+  const cache = useRef<ValidationCache | null>(null);
+
+  return useMemo(() => {
+    const previous = cache.current;
+    const sameColumns = previous && previous.headers === headers && previous.schema === schema;
+    if (sameColumns && previous.data === data) {
+      return previous.index;
+    }
+
+    const diff = sameColumns ? diffRows(previous.data, data) : null;
+    if (previous && diff) {
+      const recheck = patchUniqueValues(previous.uniqueValues, diff.removed, diff.added);
+      const index: ValidationIndex = { ...previous.index };
+      diff.removed.forEach(row => setRowIssues(index, getRowId(row), []));
+      recheck.forEach(row => setRowIssues(index, getRowId(row), previous.check(row)));
+      cache.current = { ...previous, data, index };
+      return index;
+    }
+
+    const uniqueValues = indexUniqueValues(data, headers, schema);
+    const validate = createRowValidator(headers, schema, uniqueValues);
+    const checkFormulas = createFormulaChecker(headers, schema);
+    const check = (row: CSVRow) => [...validate(row), ...checkFormulas(row)];
+    const index: ValidationIndex = { byRow: new Map(), errorCount: 0, warningCount: 0 };
+    data.forEach(row => setRowIssues(index, getRowId(row), check(row)));
+    cache.current = { data, headers, schema, uniqueValues, check, index };
+    return index;
+  }, [data, headers, schema]);
+};
@@ -0,0 +1,3 @@
+export type AggregateFunction = 'sum' | 'avg' | 'min' | 'max' | 'countDistinct';
+
+export type ColumnAggregates = Partial<Record<AggregateFunction, number | null>>;
@@ -0,0 +1,10 @@
+import { CSVRow } from './csv';
+
+export interface AppendSource {
+  fileName: string;
+  headers: string[];
+  data: CSVRow[];
+  // Source column -> dataset column it is appended to, or null to skip it. A
+  // name the dataset doesn't have yet is added as a new column.
+  mapping: Record<string, string | null>;
+}
@@ -1,5 +1,7 @@
+export type CellValue = string | number | boolean;
+
 export interface CSVRow {
-  [key: string]: string | number | boolean;
+  [key: string]: CellValue;
 }
 
 export interface CSVData {
@@ -8,7 +10,70 @@ export interface CSVData {
 }
 
 export interface EditableCell {
-  rowIndex: number;
+  rowId: number;
   columnKey: string;
-  value: string | number | boolean;
-} 
\ No newline at end of file
+  value: CellValue;
+} 
+
+export type ColumnType = 'number' | 'integer' | 'boolean' | 'date' | 'text';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export type ValidationRule =
+  | { kind: 'required'; severity: ValidationSeverity }
+  | { kind: 'unique'; severity: ValidationSeverity }
+  | { kind: 'pattern'; severity: ValidationSeverity; pattern: string }
+  | { kind: 'range'; severity: ValidationSeverity; min?: number; max?: number }
+  | { kind: 'allowedValues'; severity: ValidationSeverity; values: string[] }
+  | { kind: 'email'; severity: ValidationSeverity }
+  | { kind: 'url'; severity: ValidationSeverity };
+
+export type ValidationRuleKind = ValidationRule['kind'];
+
+export interface ValidationIssue {
+  rowId: number;
+  column: string;
+  kind: ValidationRuleKind | 'formula';
+  severity: ValidationSeverity;
+  message: string;
+}
+
+// Issues keyed by row ID, with running totals, so an edit only rechecks the
+// rows it touched.
+export interface ValidationIndex {
+  byRow: Map<number, ValidationIssue[]>;
+  errorCount: number;
+  warningCount: number;
+}
+
+export interface ColumnDefinition {
+  type: ColumnType;
+  inferredType: ColumnType;
+  rules?: ValidationRule[];
+  // Hidden columns stay in the dataset and are exported unless the export
+  // dialog is told to drop them.
+  hidden?: boolean;
+  // Computed columns derive every value from this formula; see utils/formula.
+  formula?: string;
+}
+
+export type ColumnSchema = Record<string, ColumnDefinition>;
+
+export interface DatasetState {
+  data: CSVRow[];
+  headers: string[];
+  schema: ColumnSchema;
+}
+
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  timestamp: number;
+  state: DatasetState;
+}
+
+export interface HistorySnapshot {
+  entries: HistoryEntry[];
+  index: number;
+  savedId: number;
+}
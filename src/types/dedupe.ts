@@ -0,0 +1,24 @@
+import { CSVRow } from './csv';
+
+export interface DedupeOptions {
+  // Columns that make two rows duplicates; empty compares every column.
+  columns: string[];
+  trim: boolean;
+  ignoreCase: boolean;
+  normalizeWhitespace: boolean;
+}
+
+export type DedupeStrategy = 'first' | 'last' | 'merge';
+
+export interface DuplicateCluster {
+  key: string;
+  // In dataset order.
+  rows: CSVRow[];
+}
+
+export interface ClusterResolution {
+  strategy: DedupeStrategy;
+  // For merges: column -> row ID whose value is kept. Other columns take the
+  // first non-empty value in the cluster.
+  picks: Record<string, number>;
+}
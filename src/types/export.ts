@@ -0,0 +1,14 @@
+export type ExportFormat = 'csv' | 'tsv' | 'json' | 'ndjson' | 'xlsx';
+
+export type ExportScope = 'all' | 'view' | 'selection' | 'pivot';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  scope: ExportScope;
+  fileName: string;
+  delimiter: string;
+  lineEnding: '\n' | '\r\n';
+  includeBom: boolean;
+  quoteAll: boolean;
+  includeHiddenColumns: boolean;
+}
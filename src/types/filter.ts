@@ -0,0 +1,43 @@
+export type FilterOperator =
+  | 'equals'
+  | 'notEquals'
+  | 'contains'
+  | 'notContains'
+  | 'startsWith'
+  | 'endsWith'
+  | 'regex'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'between'
+  | 'inList'
+  | 'isEmpty'
+  | 'isNotEmpty';
+
+export type FilterCombinator = 'and' | 'or';
+
+export interface FilterCondition {
+  kind: 'condition';
+  id: number;
+  column: string;
+  operator: FilterOperator;
+  value: string;
+  // Upper bound for `between`.
+  valueTo: string;
+}
+
+export interface FilterGroup {
+  kind: 'group';
+  id: number;
+  combinator: FilterCombinator;
+  children: FilterNode[];
+}
+
+export type FilterNode = FilterCondition | FilterGroup;
+
+export interface SavedView {
+  name: string;
+  filter: FilterGroup;
+  createdAt: number;
+}
@@ -0,0 +1,16 @@
+export interface FindReplaceOptions {
+  find: string;
+  replace: string;
+  // Columns to search; empty means every column.
+  columns: string[];
+  matchCase: boolean;
+  wholeCell: boolean;
+  useRegex: boolean;
+}
+
+export interface ReplaceMatch {
+  rowId: number;
+  column: string;
+  before: string;
+  after: string;
+}
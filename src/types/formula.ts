@@ -0,0 +1,10 @@
+export type FormulaValue = string | number | boolean | null;
+
+export type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '^' | '&' | '=' | '<>' | '<' | '<=' | '>' | '>=';
+
+export type FormulaNode =
+  | { kind: 'literal'; value: FormulaValue }
+  | { kind: 'column'; name: string }
+  | { kind: 'negate'; operand: FormulaNode }
+  | { kind: 'binary'; operator: BinaryOperator; left: FormulaNode; right: FormulaNode }
+  | { kind: 'call'; name: string; args: FormulaNode[] };
@@ -0,0 +1,22 @@
+export type JoinType = 'inner' | 'left' | 'right' | 'full';
+
+export interface JoinConfig {
+  type: JoinType;
+  // Paired by position: leftKeys[i] is matched against rightKeys[i].
+  leftKeys: string[];
+  rightKeys: string[];
+  // Added to column names that exist on both sides.
+  leftPrefix: string;
+  rightPrefix: string;
+}
+
+export interface JoinSummary {
+  matchedLeftRows: number;
+  unmatchedLeftRows: number;
+  matchedRightRows: number;
+  unmatchedRightRows: number;
+  // Distinct key values that occur on more than one row of that side.
+  duplicateLeftKeys: number;
+  duplicateRightKeys: number;
+  resultRows: number;
+}
@@ -0,0 +1,46 @@
+import type { ParseError } from 'papaparse';
+import { CSVRow } from './csv';
+
+export interface ImportOptions {
+  delimiter: string;
+  encoding: string;
+  quoteChar: string;
+  hasHeader: boolean;
+  skipRows: number;
+}
+
+export interface ParseRequest {
+  file: File;
+  options: ImportOptions;
+  preview?: number;
+}
+
+export interface ParseProgress {
+  rowsParsed: number;
+  bytesParsed: number;
+  totalBytes: number;
+}
+
+// A parse problem tied to one data row (`row` is null for file-level issues).
+// `row` indexes the parsed data rows; `line` is the 1-based line in the file
+// where the record starts.
+export interface ParseIssue {
+  row: number | null;
+  line: number | null;
+  type: ParseError['type'];
+  code: ParseError['code'];
+  message: string;
+  rawLine: string;
+}
+
+export interface ParsedCSV {
+  data: CSVRow[];
+  fields: string[];
+  errors: ParseIssue[];
+  truncated: boolean;
+}
+
+export type ParserWorkerMessage =
+  | ({ type: 'chunk'; rows: CSVRow[] } & ParseProgress)
+  | { type: 'complete'; fields: string[]; errors: ParseIssue[]; truncated: boolean }
+  | { type: 'error'; message: string };
@@ -0,0 +1,37 @@
+import { AggregateFunction } from './aggregation';
+import { CSVRow } from './csv';
+
+export interface PivotField {
+  column: string;
+  // Bucket width for numeric fields; null groups by exact value.
+  binSize: number | null;
+}
+
+export interface PivotValue {
+  column: string;
+  fn: AggregateFunction | 'count';
+}
+
+export interface PivotConfig {
+  rows: PivotField[];
+  columns: PivotField[];
+  values: PivotValue[];
+}
+
+export interface PivotResult {
+  rowFields: string[];
+  columnFields: string[];
+  values: PivotValue[];
+  rowKeys: string[][];
+  columnKeys: string[][];
+  // cells[row][columnGroup][value]; the last column group is the row total.
+  cells: (number | null)[][][];
+  totals: (number | null)[][];
+  truncated: boolean;
+}
+
+// A pivot flattened to plain rows, ready for the exporters.
+export interface PivotTable {
+  headers: string[];
+  data: CSVRow[];
+}
@@ -0,0 +1,39 @@
+import { ColumnType } from './csv';
+
+export interface NumericSummary {
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  stddev: number;
+}
+
+export interface ValueFrequency {
+  value: string;
+  count: number;
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+// Non-empty values that don't fit the type most of the column has.
+export interface TypeMismatch {
+  expected: ColumnType;
+  count: number;
+  examples: string[];
+}
+
+export interface ColumnProfile {
+  column: string;
+  type: ColumnType;
+  totalCount: number;
+  emptyCount: number;
+  distinctCount: number;
+  numeric: NumericSummary | null;
+  topValues: ValueFrequency[];
+  histogram: HistogramBin[];
+  mismatch: TypeMismatch | null;
+}
@@ -0,0 +1,45 @@
+import { ColumnSchema, CSVRow } from './csv';
+
+// Lightweight listing record, kept apart from the history so the recent files
+// list can be read without loading every stored dataset.
+export interface RecentFile {
+  id: string;
+  fileName: string;
+  rowCount: number;
+  columnCount: number;
+  hasUnsavedChanges: boolean;
+  openedAt: number;
+  updatedAt: number;
+}
+
+// The history's order and position. Its entries are stored one record each,
+// so an autosave only writes the entries added since the previous one.
+export interface StoredSession {
+  id: string;
+  entryIds: number[];
+  index: number;
+  savedId: number;
+}
+
+// One history entry. Rows are stored only where they differ from the state
+// left by the entry records written before it, and `rowIds` gives the order.
+export interface StoredHistoryEntry {
+  sessionId: string;
+  id: number;
+  label: string;
+  timestamp: number;
+  headers: string[];
+  schema: ColumnSchema;
+  rowIds: number[];
+  changedRows: CSVRow[];
+}
+
+// What the entry records of a session add up to, kept by the autosave so the
+// next save can write only what changed.
+export interface StoredHistoryState {
+  entryIds: Set<number>;
+  rows: Map<number, CSVRow>;
+}
+
+// The session currently being edited and autosaved.
+export type ActiveSession = Pick<RecentFile, 'id' | 'fileName' | 'openedAt'>;
@@ -0,0 +1,9 @@
+export type SortDirection = 'asc' | 'desc';
+
+// Where empty cells go, regardless of each key's direction.
+export type EmptyPlacement = 'first' | 'last';
+
+export interface SortKey {
+  column: string;
+  direction: SortDirection;
+}
@@ -0,0 +1,21 @@
+import { DatasetState, HistorySnapshot } from './csv';
+import { ActiveSession } from './session';
+
+export interface Notification {
+  message: string;
+  severity: 'success' | 'error' | 'info' | 'warning';
+}
+
+// One open file. The tab owns its history once mounted; `initialHistory` only
+// seeds it.
+export interface WorkspaceTab {
+  session: ActiveSession;
+  initialHistory: HistorySnapshot;
+}
+
+// The current state of an open tab, as seen by tools that combine files.
+export interface OpenDataset {
+  id: string;
+  fileName: string;
+  state: DatasetState;
+}
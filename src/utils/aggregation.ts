@@ -0,0 +1,74 @@
+import { AggregateFunction, ColumnAggregates } from '../types/aggregation';
+import { CSVRow } from '../types/csv';
+import { isEmptyValue, toNumber } from './columnTypes';
+
+export const AGGREGATE_FUNCTIONS: { value: AggregateFunction; label: string }[] = [
+  { value: 'sum', label: 'Sum' },
+  { value: 'avg', label: 'Avg' },
+  { value: 'min', label: 'Min' },
+  { value: 'max', label: 'Max' },
+  { value: 'countDistinct', label: 'Distinct' },
+];
+
+/**
+ * Aggregates each column over `rows`. Sum, average, min and max only look at
+ * numeric cells, including numeric text; distinct counts include any non-empty value. Functions with
+ * nothing to aggregate come back as null.
+ */
+export const computeAggregates = (
+  rows: CSVRow[],
+  columns: string[],
+  functions: AggregateFunction[],
+): Record<string, ColumnAggregates> => {
+  const result: Record<string, ColumnAggregates> = {};
+
+  columns.forEach(column => {
+    let sum = 0;
+    let count = 0;
+    let min = Infinity;
+    let max = -Infinity;
+    const distinct = new Set<string>();
+
+    rows.forEach(row => {
+      const value = row[column];
+      if (isEmptyValue(value)) return;
+      distinct.add(String(value));
+      const numeric = toNumber(value);
+      if (numeric !== null) {
+        sum += numeric;
+        count += 1;
+        min = Math.min(min, numeric);
+        max = Math.max(max, numeric);
+      }
+    });
+
+    const aggregates: ColumnAggregates = {};
+    functions.forEach(fn => {
+      switch (fn) {
+        case 'sum':
+          aggregates.sum = count > 0 ? sum : null;
+          break;
+        case 'avg':
+          aggregates.avg = count > 0 ? sum / count : null;
+          break;
+        case 'min':
+          aggregates.min = count > 0 ? min : null;
+          break;
+        case 'max':
+          aggregates.max = count > 0 ? max : null;
+          break;
+        case 'countDistinct':
+          aggregates.countDistinct = distinct.size;
+          break;
+      }
+    });
+    result[column] = aggregates;
+  });
+
+  return result;
+};
+
+export const formatAggregate = (value: number | null | undefined): string =>
+  value === null || value === undefined
+    ? '—'
+    : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { AppendSource } from '../types/append';
+import { DatasetState } from '../types/csv';
+import { appendSources, createColumnMapping, getSourceColumnError } from './append';
+import { getRowId, withRowIds } from './rowIds';
+
+const state: DatasetState = {
+  data: withRowIds([{ 'Order ID': 1, amount: 10 }, { 'Order ID': 2, amount: 20 }]),
+  headers: ['Order ID', 'amount'],
+  schema: {
+    'Order ID': { type: 'integer', inferredType: 'integer' },
+    amount: { type: 'integer', inferredType: 'integer' },
+  },
+};
+
+const source = (fileName: string, headers: string[], rows: string[][]): AppendSource => ({
+  fileName,
+  headers,
+  data: rows.map(cells => Object.fromEntries(headers.map((header, index) => [header, cells[index]]))),
+  mapping: createColumnMapping(headers, state.headers, state.headers),
+});
+
+describe('createColumnMapping', () => {
+  it('matches columns ignoring case, spacing and separators', () => {
+    expect(createColumnMapping(['order_id', ' AMOUNT ', 'note'], ['Order ID', 'amount'], ['Order ID', 'amount']))
+      .toEqual({ order_id: 'Order ID', ' AMOUNT ': 'amount', note: 'note' });
+  });
+
+  it('maps each target once and skips new columns the dataset already has', () => {
+    expect(createColumnMapping(['order id', 'order-id', 'status'], ['Order ID'], ['Order ID', 'status']))
+      .toEqual({ 'order id': 'Order ID', 'order-id': 'order-id', status: null });
+  });
+});
+
+describe('getSourceColumnError', () => {
+  it('requires a new, non-empty column name', () => {
+    const sources = [source('b.csv', ['order_id', 'region'], [])];
+    expect(getSourceColumnError(state.headers, sources, null)).toBeNull();
+    expect(getSourceColumnError(state.headers, sources, 'Source File')).toBeNull();
+    expect(getSourceColumnError(state.headers, sources, '')).toBe('Name the source file column');
+    expect(getSourceColumnError(state.headers, sources, 'amount')).toMatch(/already a column/);
+    expect(getSourceColumnError(state.headers, sources, 'region')).toMatch(/already a column/);
+  });
+});
+
+describe('appendSources', () => {
+  it('appends mapped rows, blanks unmapped cells and types new columns', () => {
+    const result = appendSources(state, [
+      source('b.csv', ['order_id', 'region'], [['3', 'North']]),
+      source('c.csv', ['AMOUNT', 'discount'], [['40', '1.5']]),
+    ], null, 'a.csv');
+
+    expect(result.headers).toEqual(['Order ID', 'amount', 'region', 'discount']);
+    expect(result.schema.discount.type).toBe('number');
+    expect(result.data.slice(2).map(({ __rowId, ...row }) => row)).toEqual([
+      { 'Order ID': 3, amount: '', region: 'North', discount: '' },
+      { 'Order ID': '', amount: 40, region: '', discount: 1.5 },
+    ]);
+    expect(result.data[0]).toMatchObject({ 'Order ID': 1, region: '', discount: '' });
+    expect(new Set(result.data.map(getRowId)).size).toBe(4);
+  });
+
+  it('records the source file of existing and appended rows', () => {
+    const result = appendSources(state, [
+      source('b.csv', ['order_id'], [['3']]),
+      source('c.csv', ['order_id'], [['4']]),
+    ], 'Source File', 'a.csv');
+
+    expect(result.headers).toEqual(['Order ID', 'amount', 'Source File']);
+    expect(result.data.map(row => row['Source File'])).toEqual(['a.csv', 'a.csv', 'b.csv', 'c.csv']);
+  });
+});
@@ -0,0 +1,146 @@
+import { ColumnSchema, CSVRow, DatasetState } from '../types/csv';
+import { AppendSource } from '../types/append';
+import { coerceValue, inferColumnType } from './columnTypes';
+import { withRowIds } from './rowIds';
+
+export const DEFAULT_SOURCE_COLUMN = 'Source File';
+
+// "Order ID", "order_id" and "order-id " are treated as the same column.
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+
+/**
+ * Maps each source column to the target column with the same name, ignoring
+ * case, spacing and separators. Unmatched columns become new columns unless
+ * the dataset already has a column by that name that isn't a target.
+ */
+export const createColumnMapping = (
+  sourceHeaders: string[],
+  targetHeaders: string[],
+  headers: string[],
+): Record<string, string | null> => {
+  const mapping: Record<string, string | null> = {};
+  const used = new Set<string>();
+  sourceHeaders.forEach(header => {
+    const match = targetHeaders.find(target => !used.has(target) && normalizeHeader(target) === normalizeHeader(header));
+    const target = match ?? header;
+    const isTaken = used.has(target) || (match === undefined && headers.includes(header));
+    mapping[header] = isTaken ? null : target;
+    if (!isTaken) {
+      used.add(target);
+    }
+  });
+  return mapping;
+};
+
+export const getMappingError = (source: AppendSource): string | null => {
+  const targets = Object.values(source.mapping).filter((target): target is string => target !== null);
+  const duplicate = targets.find((target, index) => targets.indexOf(target) !== index);
+  if (duplicate !== undefined) {
+    return `${source.fileName}: two columns are mapped to "${duplicate}"`;
+  }
+  if (targets.some(target => target.trim() === '')) {
+    return `${source.fileName}: column names cannot be empty`;
+  }
+  return null;
+};
+
+/**
+ * The source file column must be a new column: filling one the dataset or a
+ * mapping already uses would overwrite its values.
+ */
+export const getSourceColumnError = (
+  headers: string[],
+  sources: AppendSource[],
+  sourceColumn: string | null,
+): string | null => {
+  if (sourceColumn === null) {
+    return null;
+  }
+  if (sourceColumn === '') {
+    return 'Name the source file column';
+  }
+  const isMapped = sources.some(source => Object.values(source.mapping).includes(sourceColumn));
+  if (headers.includes(sourceColumn) || isMapped) {
+    return `"${sourceColumn}" is already a column; choose another name for the source file column`;
+  }
+  return null;
+};
+
+/** Columns the dataset gains from an append, in order of first appearance. */
+export const getNewColumns = (headers: string[], sources: AppendSource[], sourceColumn: string | null): string[] => {
+  const added: string[] = [];
+  const add = (column: string) => {
+    if (!headers.includes(column) && !added.includes(column)) {
+      added.push(column);
+    }
+  };
+  sources.forEach(source => {
+    source.headers.forEach(header => {
+      const target = source.mapping[header];
+      if (target != null) add(target);
+    });
+  });
+  if (sourceColumn !== null) {
+    add(sourceColumn);
+  }
+  return added;
+};
+
+/**
+ * Appends the rows of each source below the dataset. Cells of columns a file
+ * doesn't map to are left blank. With `sourceColumn`, which must pass
+ * getSourceColumnError, every appended row records the file it came from and
+ * existing rows record `fileName`, the file the dataset was opened from.
+ */
+export const appendSources = (
+  state: DatasetState,
+  sources: AppendSource[],
+  sourceColumn: string | null,
+  fileName: string,
+): DatasetState => {
+  const newColumns = getNewColumns(state.headers, sources, sourceColumn);
+  const headers = [...state.headers, ...newColumns];
+
+  const appended = sources.flatMap(source =>
+    source.data.map(sourceRow => {
+      const row: CSVRow = {};
+      headers.forEach(header => {
+        row[header] = '';
+      });
+      source.headers.forEach(header => {
+        const target = source.mapping[header];
+        if (target != null && sourceRow[header] !== undefined) {
+          row[target] = sourceRow[header];
+        }
+      });
+      if (sourceColumn !== null) {
+        row[sourceColumn] = source.fileName;
+      }
+      return row;
+    })
+  );
+
+  const schema: ColumnSchema = { ...state.schema };
+  newColumns.forEach(column => {
+    const type = inferColumnType(appended.map(row => row[column]));
+    schema[column] = { type, inferredType: type };
+  });
+  const typed = appended.map(row => {
+    headers.forEach(header => {
+      row[header] = coerceValue(row[header], schema[header]?.type || 'text');
+    });
+    return row;
+  });
+
+  const existing = newColumns.length === 0
+    ? state.data
+    : state.data.map(row => {
+      const padded = { ...row };
+      newColumns.forEach(column => {
+        padded[column] = column === sourceColumn ? fileName : '';
+      });
+      return padded;
+    });
+
+  return { data: [...existing, ...withRowIds(typed)], headers, schema };
+};
@@ -0,0 +1,113 @@
+import { CellValue, ColumnSchema, CSVRow } from '../types/csv';
+import { coerceValue } from './columnTypes';
+import { formatCSVField } from './csvSerializer';
+import { createRowId, getRowId, ROW_ID_KEY } from './rowIds';
+
+/** Tab-separated text, the format spreadsheets put on the clipboard. */
+export const toTSV = (block: (CellValue | undefined)[][]): string =>
+  block.map(cells => cells.map(cell => formatCSVField(cell, '\t')).join('\t')).join('\n');
+
+/**
+ * Parses text copied from Excel or Google Sheets into rows of cells. Quoted
+ * cells may contain tabs, quotes and line breaks. The trailing line break
+ * spreadsheets add is dropped.
+ */
+export const parseTSV = (text: string): string[][] => {
+  const input = text.replace(/\r\n?/g, '\n').replace(/\n$/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+    if (char === '"' && cell === '') {
+      // Quoted cell: read up to the closing quote, unescaping doubled quotes.
+      let end = i + 1;
+      while (end < input.length) {
+        if (input[end] === '"') {
+          if (input[end + 1] === '"') {
+            cell += '"';
+            end += 2;
+            continue;
+          }
+          break;
+        }
+        cell += input[end];
+        end++;
+      }
+      i = end + 1;
+      continue;
+    }
+    if (char === '\t') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n') {
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+    i++;
+  }
+  row.push(cell);
+  rows.push(row);
+  return rows;
+};
+
+export interface PasteTarget {
+  rowIds: number[];
+  columns: string[];
+  rowIndex: number;
+  columnIndex: number;
+}
+
+/**
+ * Writes a pasted block into `data`, starting at the target cell and walking
+ * rows in display order. Rows that run past the end are appended as new rows;
+ * cells past the last column are dropped. Values are typed like loaded ones.
+ */
+export const applyPaste = (
+  data: CSVRow[],
+  headers: string[],
+  schema: ColumnSchema,
+  block: string[][],
+  target: PasteTarget,
+): { data: CSVRow[]; cellCount: number; addedRows: number } => {
+  const updates = new Map<number, CSVRow>();
+  const newRows: CSVRow[] = [];
+  let cellCount = 0;
+
+  block.forEach((cells, offset) => {
+    let rowId: number | undefined = target.rowIds[target.rowIndex + offset];
+    if (rowId === undefined) {
+      const newRow: CSVRow = { [ROW_ID_KEY]: createRowId() };
+      headers.forEach(header => {
+        newRow[header] = '';
+      });
+      newRows.push(newRow);
+      rowId = getRowId(newRow);
+      updates.set(rowId, newRow);
+    }
+    const update = updates.get(rowId) || {};
+    cells.forEach((text, cellOffset) => {
+      const column = target.columns[target.columnIndex + cellOffset];
+      if (column === undefined) return;
+      update[column] = coerceValue(text, schema[column]?.type || 'text');
+      cellCount++;
+    });
+    updates.set(rowId, update);
+  });
+
+  const patched = data.map(row => {
+    const update = updates.get(getRowId(row));
+    return update ? { ...row, ...update } : row;
+  });
+  return {
+    data: [...patched, ...newRows],
+    cellCount,
+    addedRows: newRows.length,
+  };
+};
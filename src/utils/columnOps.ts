@@ -0,0 +1,90 @@
+import { CSVRow, DatasetState } from '../types/csv';
+import { coerceValue, inferColumnType } from './columnTypes';
+import { renameFormulaColumn } from './formula';
+import { ROW_ID_KEY } from './rowIds';
+
+export const getColumnNameError = (headers: string[], name: string, currentName?: string): string | null => {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    return 'Column name cannot be empty';
+  }
+  if (trimmed === ROW_ID_KEY) {
+    return `"${ROW_ID_KEY}" is reserved`;
+  }
+  if (trimmed !== currentName && headers.includes(trimmed)) {
+    return `A column named "${trimmed}" already exists`;
+  }
+  return null;
+};
+
+/** Inserts a column filled with `defaultValue`, typed from that value. */
+export const addColumn = (
+  state: DatasetState,
+  name: string,
+  defaultValue: string,
+  index = state.headers.length,
+): DatasetState => {
+  const column = name.trim();
+  const type = inferColumnType([defaultValue]);
+  const value = coerceValue(defaultValue, type);
+  const headers = [...state.headers];
+  headers.splice(index, 0, column);
+
+  return {
+    data: state.data.map(row => ({ ...row, [column]: value })),
+    headers,
+    schema: { ...state.schema, [column]: { type, inferredType: type } },
+  };
+};
+
+export const renameColumn = (state: DatasetState, from: string, to: string): DatasetState => {
+  const column = to.trim();
+  if (column === from) {
+    return state;
+  }
+  const schema = { ...state.schema, [column]: state.schema[from] };
+  delete schema[from];
+  // Computed columns that read the old name follow the rename.
+  Object.entries(schema).forEach(([name, definition]) => {
+    if (definition.formula !== undefined) {
+      schema[name] = { ...definition, formula: renameFormulaColumn(definition.formula, from, column) };
+    }
+  });
+
+  return {
+    data: state.data.map(row => {
+      const renamed: CSVRow = { ...row, [column]: row[from] };
+      delete renamed[from];
+      return renamed;
+    }),
+    headers: state.headers.map(header => (header === from ? column : header)),
+    schema,
+  };
+};
+
+export const deleteColumn = (state: DatasetState, column: string): DatasetState => {
+  const schema = { ...state.schema };
+  delete schema[column];
+
+  return {
+    data: state.data.map(row => {
+      const rest = { ...row };
+      delete rest[column];
+      return rest;
+    }),
+    headers: state.headers.filter(header => header !== column),
+    schema,
+  };
+};
+
+// Only the header order changes; rows are keyed by name and stay untouched.
+export const moveColumn = (state: DatasetState, column: string, toIndex: number): DatasetState => {
+  const headers = state.headers.filter(header => header !== column);
+  headers.splice(Math.max(0, Math.min(toIndex, headers.length)), 0, column);
+  return { ...state, headers };
+};
+
+export const setColumnHidden = (state: DatasetState, column: string, hidden: boolean): DatasetState => ({
+  ...state,
+  schema: { ...state.schema, [column]: { ...state.schema[column], hidden } },
+});
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { inferColumnType, parseDate } from './columnTypes';
+
+describe('parseDate', () => {
+  it('parses ISO and slash dates as UTC', () => {
+    expect(parseDate('2024-02-29')).toBe(Date.UTC(2024, 1, 29));
+    expect(parseDate('2023-06-01T14:30:15')).toBe(Date.UTC(2023, 5, 1, 14, 30, 15));
+    expect(parseDate('12/31/2023')).toBe(Date.UTC(2023, 11, 31));
+  });
+
+  it('rejects dates and times that would roll over', () => {
+    expect(parseDate('2023-02-31')).toBeNull();
+    expect(parseDate('2023-02-29')).toBeNull();
+    expect(parseDate('2023-04-31')).toBeNull();
+    expect(parseDate('2023-13-01')).toBeNull();
+    expect(parseDate('2023-01-01 24:00')).toBeNull();
+    expect(parseDate('2023-01-01 12:60')).toBeNull();
+    expect(parseDate('2/31/2023')).toBeNull();
+    expect(parseDate('31/02/2023')).toBeNull();
+  });
+
+  it('keeps columns with impossible dates as text', () => {
+    expect(inferColumnType(['2023-01-31', '2023-02-28'])).toBe('date');
+    expect(inferColumnType(['2023-01-31', '2023-02-31'])).toBe('text');
+  });
+});
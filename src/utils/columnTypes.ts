@@ -0,0 +1,194 @@
+import { CellValue, ColumnSchema, ColumnType, CSVRow } from '../types/csv';
+
+export const COLUMN_TYPES: { value: ColumnType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'integer', label: 'Integer' },
+  { value: 'boolean', label: 'Boolean' },
+  { value: 'date', label: 'Date' },
+];
+
+// Leading zeros ("007") are rejected so identifiers such as zip codes stay text.
+const NUMBER_PATTERN = /^-?(0|[1-9]\d*)(\.\d+)?$/;
+const INTEGER_PATTERN = /^-?(0|[1-9]\d*)$/;
+const NUMERIC_INPUT_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i;
+const BOOLEAN_PATTERN = /^(true|false)$/i;
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})([ T](\d{2}):(\d{2})(:(\d{2}))?)?$/;
+const SLASH_DATE_PATTERN = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
+
+export const isEmptyValue = (value: CellValue | undefined | null): boolean =>
+  value === undefined || value === null || String(value).trim() === '';
+
+// Date.UTC rolls out-of-range parts over ("2023-02-31" becomes March 3), so
+// the result must land on the same parts it was built from.
+const toUTCTime = (year: number, month: number, day: number, hours = 0, minutes = 0, seconds = 0): number | null => {
+  const time = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+  const date = new Date(time);
+  const matches = date.getUTCFullYear() === year
+    && date.getUTCMonth() === month - 1
+    && date.getUTCDate() === day
+    && date.getUTCHours() === hours
+    && date.getUTCMinutes() === minutes
+    && date.getUTCSeconds() === seconds;
+  return matches ? time : null;
+};
+
+export const parseDate = (value: string): number | null => {
+  const text = value.trim();
+  const iso = ISO_DATE_PATTERN.exec(text);
+  if (iso) {
+    return toUTCTime(
+      Number(iso[1]), Number(iso[2]), Number(iso[3]),
+      Number(iso[5] || 0), Number(iso[6] || 0), Number(iso[8] || 0)
+    );
+  }
+  const slash = SLASH_DATE_PATTERN.exec(text);
+  if (slash) {
+    return toUTCTime(Number(slash[3]), Number(slash[1]), Number(slash[2]));
+  }
+  return null;
+};
+
+// Values past 2^53 can't be held exactly, so such columns (long IDs, card
+// numbers) stay text.
+const isSafeNumber = (text: string) => Math.abs(Number(text)) <= Number.MAX_SAFE_INTEGER;
+
+const matchesType = (text: string, type: ColumnType): boolean => {
+  switch (type) {
+    case 'integer':
+      return INTEGER_PATTERN.test(text) && isSafeNumber(text);
+    case 'number':
+      return NUMBER_PATTERN.test(text) && isSafeNumber(text);
+    case 'boolean':
+      return BOOLEAN_PATTERN.test(text);
+    case 'date':
+      return parseDate(text) !== null;
+    case 'text':
+      return true;
+  }
+};
+
+const INFERENCE_ORDER: ColumnType[] = ['integer', 'number', 'boolean', 'date'];
+
+export const inferColumnType = (values: CellValue[]): ColumnType => {
+  const samples = values.filter(value => !isEmptyValue(value)).map(value => String(value).trim());
+  if (samples.length === 0) {
+    return 'text';
+  }
+  return INFERENCE_ORDER.find(type => samples.every(text => matchesType(text, type))) || 'text';
+};
+
+export const inferSchema = (data: CSVRow[], headers: string[]): ColumnSchema => {
+  const schema: ColumnSchema = {};
+  headers.forEach(header => {
+    const type = inferColumnType(data.map(row => row[header]));
+    schema[header] = { type, inferredType: type };
+  });
+  return schema;
+};
+
+/**
+ * Parses user or file input into the column's type. Returns null when the
+ * text does not fit the type; empty input is always accepted as ''.
+ */
+export const parseValue = (input: CellValue, type: ColumnType): CellValue | null => {
+  if (isEmptyValue(input)) {
+    return '';
+  }
+  const text = String(input).trim();
+  switch (type) {
+    case 'integer':
+    case 'number': {
+      if (typeof input !== 'number' && !NUMERIC_INPUT_PATTERN.test(text)) {
+        return null;
+      }
+      const numeric = typeof input === 'number' ? input : Number(text);
+      if (!Number.isFinite(numeric) || (type === 'integer' && !Number.isInteger(numeric))) {
+        return null;
+      }
+      return numeric;
+    }
+    case 'boolean':
+      if (typeof input === 'boolean') return input;
+      return BOOLEAN_PATTERN.test(text) ? text.toLowerCase() === 'true' : null;
+    case 'date':
+      return parseDate(text) !== null ? String(input) : null;
+    case 'text':
+      return String(input);
+  }
+};
+
+/**
+ * Types a loaded value only when the typed value prints back as exactly the
+ * same text ("1.5", "true"). Anything else ("1.50", " 42 ", "TRUE", values
+ * that don't fit) keeps its original text, so exporting an untouched file
+ * reproduces it; comparisons and aggregates parse such text on demand.
+ */
+export const coerceValue = (value: CellValue, type: ColumnType): CellValue => {
+  if (isEmptyValue(value)) {
+    return value;
+  }
+  const parsed = parseValue(value, type);
+  return parsed !== null && String(parsed) === String(value) ? parsed : value;
+};
+
+/** The numeric value of a number or numeric text, or null. */
+export const toNumber = (value: CellValue | undefined): number | null => {
+  if (typeof value === 'number') return value;
+  if (value === undefined) return null;
+  const parsed = parseValue(value, 'number');
+  return typeof parsed === 'number' ? parsed : null;
+};
+
+export const applySchema = (data: CSVRow[], headers: string[], schema: ColumnSchema): CSVRow[] =>
+  data.map(row => {
+    const typedRow: CSVRow = { ...row };
+    headers.forEach(header => {
+      if (row[header] !== undefined) {
+        typedRow[header] = coerceValue(row[header], schema[header]?.type || 'text');
+      }
+    });
+    return typedRow;
+  });
+
+const toComparable = (value: CellValue, type: ColumnType): number | null => {
+  switch (type) {
+    case 'integer':
+    case 'number':
+      return toNumber(value);
+    case 'boolean': {
+      const parsed = parseValue(value, 'boolean');
+      return typeof parsed === 'boolean' ? Number(parsed) : null;
+    }
+    case 'date':
+      return parseDate(String(value));
+    case 'text':
+      return null;
+  }
+};
+
+// Natural ordering, so "User2" sorts before "User10".
+const naturalCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+/**
+ * Ascending comparison that respects the column type. Empty cells sort first;
+ * cells that don't fit the type sort after well-typed values. Text compares
+ * in natural order.
+ */
+export const compareValues = (a: CellValue | undefined, b: CellValue | undefined, type: ColumnType): number => {
+  const aEmpty = isEmptyValue(a);
+  const bEmpty = isEmptyValue(b);
+  if (aEmpty && bEmpty) return 0;
+  if (aEmpty) return -1;
+  if (bEmpty) return 1;
+  if (type !== 'text') {
+    const aComparable = toComparable(a as CellValue, type);
+    const bComparable = toComparable(b as CellValue, type);
+    if (aComparable !== null && bComparable !== null) {
+      return aComparable - bComparable;
+    }
+    if (aComparable !== null) return -1;
+    if (bComparable !== null) return 1;
+  }
+  return naturalCollator.compare(String(a), String(b));
+};
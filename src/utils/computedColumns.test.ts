@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { addComputedColumn } from './computedColumns';
+import { withRowIds } from './rowIds';
+
+describe('computed columns', () => {
+  it('rounds away float noise in results', () => {
+    const state = addComputedColumn(
+      { data: withRowIds([{ Salary: 50000 }, { Salary: 0.1 }]), headers: ['Salary'], schema: {} },
+      'Raise',
+      'Salary * 1.1'
+    );
+    expect(state.data.map(row => row.Raise)).toEqual([55000, 0.11]);
+  });
+});
@@ -0,0 +1,198 @@
+import { CellValue, ColumnSchema, CSVRow, DatasetState, ValidationIssue } from '../types/csv';
+import { FormulaNode } from '../types/formula';
+import { inferColumnType } from './columnTypes';
+import { checkFormula, evaluateFormula, parseFormula } from './formula';
+import { diffRows } from './rowDiff';
+import { getRowId } from './rowIds';
+
+// Shown in cells whose formula failed; the reason is reported as an issue.
+export const FORMULA_ERROR_VALUE = '#ERROR';
+
+interface CompiledFormula {
+  column: string;
+  node: FormulaNode | null;
+  error: string | null;
+}
+
+interface FormulaCellError {
+  rowId: number;
+  column: string;
+  message: string;
+}
+
+// Trims binary float noise such as 55000.00000000001 from `Salary * 1.1`;
+// 15 significant digits is all a double holds reliably.
+const roundResult = (value: CellValue): CellValue =>
+  typeof value === 'number' && Number.isFinite(value) ? Number(value.toPrecision(15)) : value;
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : 'Invalid formula');
+
+/** Explains why a formula can't be used for `column`, or returns null. */
+export const getFormulaError = (formula: string, headers: string[], column?: string): string | null => {
+  try {
+    const references = checkFormula(parseFormula(formula));
+    const unknown = references.find(reference => !headers.includes(reference));
+    if (unknown !== undefined) {
+      return `Unknown column "${unknown}"`;
+    }
+    if (column !== undefined && references.includes(column)) {
+      return 'A column cannot refer to itself';
+    }
+  } catch (error) {
+    return errorMessage(error);
+  }
+  return null;
+};
+
+/**
+ * Compiles every computed column and orders them so a formula runs after
+ * the computed columns it reads. Columns in a reference cycle get an error.
+ */
+const compileFormulas = (headers: string[], schema: ColumnSchema): CompiledFormula[] => {
+  const compiled = new Map<string, CompiledFormula & { references: string[] }>();
+  headers.forEach(column => {
+    const formula = schema[column]?.formula;
+    if (formula === undefined) return;
+    const error = getFormulaError(formula, headers, column);
+    const node = error ? null : parseFormula(formula);
+    compiled.set(column, { column, node, error, references: node ? checkFormula(node) : [] });
+  });
+
+  const ordered: CompiledFormula[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+  const visit = (column: string): boolean => {
+    const entry = compiled.get(column);
+    if (!entry || state.get(column) === 'done') return true;
+    if (state.get(column) === 'visiting') return false;
+    state.set(column, 'visiting');
+    const acyclic = entry.references.every(visit);
+    if (!acyclic && !entry.error) {
+      entry.error = 'Circular reference between computed columns';
+      entry.node = null;
+    }
+    state.set(column, 'done');
+    ordered.push(entry);
+    return acyclic;
+  };
+  compiled.forEach((_, column) => visit(column));
+  return ordered;
+};
+
+// Rows keep their identity unless a computed value actually changes, so
+// incremental views only patch the rows that moved.
+const computeRow = (row: CSVRow, formulas: CompiledFormula[], errors?: FormulaCellError[]): CSVRow => {
+  let current = row;
+  formulas.forEach(({ column, node, error }) => {
+    let value: CellValue;
+    if (node) {
+      try {
+        value = roundResult(evaluateFormula(node, current) ?? '');
+      } catch (evaluationError) {
+        value = FORMULA_ERROR_VALUE;
+        errors?.push({ rowId: getRowId(row), column, message: errorMessage(evaluationError) });
+      }
+    } else {
+      value = FORMULA_ERROR_VALUE;
+      errors?.push({ rowId: getRowId(row), column, message: error || 'Invalid formula' });
+    }
+    if (current[column] !== value) {
+      current = current === row ? { ...row } : current;
+      current[column] = value;
+    }
+  });
+  return current;
+};
+
+/**
+ * Recomputes computed columns, e.g. after source cells change. Given the
+ * previous state with the same columns and formulas, only rows that were
+ * added or edited since then are evaluated.
+ */
+export const recalculateFormulas = (state: DatasetState, previous?: DatasetState): DatasetState => {
+  const formulas = compileFormulas(state.headers, state.schema);
+  if (formulas.length === 0) {
+    return state;
+  }
+  const sameColumns = previous && previous.headers === state.headers && previous.schema === state.schema;
+  const diff = sameColumns ? diffRows(previous.data, state.data) : null;
+  if (diff && diff.added.size === 0) {
+    return state;
+  }
+
+  let changed = false;
+  const data = state.data.map(row => {
+    if (diff && !diff.added.has(row)) return row;
+    const computed = computeRow(row, formulas);
+    changed = changed || computed !== row;
+    return computed;
+  });
+  return changed ? { ...state, data } : state;
+};
+
+/**
+ * Replaces the row at `position`, evaluating computed columns for that row
+ * only. The row array is copied once, for the new history snapshot.
+ */
+export const updateRow = (state: DatasetState, position: number, row: CSVRow): DatasetState => {
+  const data = state.data.slice();
+  data[position] = computeRow(row, compileFormulas(state.headers, state.schema));
+  return { ...state, data };
+};
+
+/**
+ * Checks rows one at a time for formula errors, so callers can recheck just
+ * the rows that changed.
+ */
+export const createFormulaChecker = (headers: string[], schema: ColumnSchema) => {
+  const formulas = compileFormulas(headers, schema);
+  return (row: CSVRow): ValidationIssue[] => {
+    if (formulas.length === 0) return [];
+    const errors: FormulaCellError[] = [];
+    computeRow(row, formulas, errors);
+    return errors.map(error => ({
+      ...error,
+      kind: 'formula',
+      severity: 'warning',
+      message: `Formula error: ${error.message}`,
+    }));
+  };
+};
+
+// The column type follows whatever the formula produces.
+const withFormula = (state: DatasetState, column: string, formula: string): DatasetState => {
+  const schema: ColumnSchema = {
+    ...state.schema,
+    [column]: { ...(state.schema[column] || { type: 'text', inferredType: 'text' }), formula: formula.trim() },
+  };
+  const recalculated = recalculateFormulas({ ...state, schema });
+  const type = inferColumnType(
+    recalculated.data.map(row => row[column]).filter(value => value !== FORMULA_ERROR_VALUE)
+  );
+  return {
+    ...recalculated,
+    schema: { ...schema, [column]: { ...schema[column], type, inferredType: type } },
+  };
+};
+
+export const addComputedColumn = (state: DatasetState, name: string, formula: string): DatasetState => {
+  const column = name.trim();
+  return withFormula(
+    {
+      data: state.data.map(row => ({ ...row, [column]: '' })),
+      headers: [...state.headers, column],
+      schema: state.schema,
+    },
+    column,
+    formula
+  );
+};
+
+export const setColumnFormula = (state: DatasetState, column: string, formula: string): DatasetState =>
+  withFormula(state, column, formula);
+
+/** Keeps the current values and drops the formula, making a plain column. */
+export const freezeColumn = (state: DatasetState, column: string): DatasetState => {
+  const definition = { ...state.schema[column] };
+  delete definition.formula;
+  return { ...state, schema: { ...state.schema, [column]: definition } };
+};
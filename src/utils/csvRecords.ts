@@ -0,0 +1,131 @@
+import Papa from 'papaparse';
+import type { ParseError } from 'papaparse';
+import { CSVRow } from '../types/csv';
+import { ImportOptions, ParseIssue } from '../types/parser';
+import { ROW_ID_KEY } from './rowIds';
+
+const LINE_BREAK_PATTERN = /\r\n|\r|\n/g;
+
+type RecordOptions = Pick<ImportOptions, 'delimiter' | 'quoteChar' | 'hasHeader' | 'skipRows'>;
+
+export interface RecordReader {
+  /**
+   * Turns one batch of records, parsed with `header: false` and
+   * `skipEmptyLines: false`, into data rows. `errors` are Papa's errors for
+   * the same batch; they are recorded against the data rows they belong to.
+   */
+  read: (records: string[][], errors?: ParseError[]) => CSVRow[];
+  fields: () => string[];
+  issues: () => ParseIssue[];
+  rowsParsed: () => number;
+}
+
+// Blank or repeated header names would collide as row keys, and a column
+// named like the internal row ID key would be overwritten by it.
+export const uniqueFieldNames = (cells: string[]): string[] => {
+  const seen = new Set<string>([ROW_ID_KEY]);
+  return cells.map((cell, index) => {
+    const base = cell.trim() || `Column ${index + 1}`;
+    let name = base;
+    let suffix = 2;
+    while (seen.has(name)) {
+      name = `${base}_${suffix++}`;
+    }
+    seen.add(name);
+    return name;
+  });
+};
+
+/**
+ * Builds rows from raw records across any number of batches. Title rows and
+ * the header are handled here rather than by Papa's `header` option, so they
+ * can sit below any number of leading lines. Blank lines are dropped here
+ * rather than by Papa's `skipEmptyLines`, because Papa numbers error rows
+ * before that filter and they would point past every blank line.
+ */
+export const createRecordReader = (options: RecordOptions): RecordReader => {
+  const issues: ParseIssue[] = [];
+  let fields: string[] = [];
+  let recordsSeen = 0;
+  let rowsParsed = 0;
+  let linesRead = 0;
+  const leadingRecords = options.skipRows + (options.hasHeader ? 1 : 0);
+
+  const toRawLine = (cells: string[]) =>
+    Papa.unparse([cells], { delimiter: options.delimiter, quoteChar: options.quoteChar });
+
+  const toRow = (cells: string[], line: number): CSVRow => {
+    while (!options.hasHeader && fields.length < cells.length) {
+      fields.push(`Column ${fields.length + 1}`);
+    }
+    if (options.hasHeader && cells.length !== fields.length) {
+      issues.push({
+        type: 'FieldMismatch',
+        code: cells.length < fields.length ? 'TooFewFields' : 'TooManyFields',
+        message: `Expected ${fields.length} fields but parsed ${cells.length}`,
+        row: rowsParsed,
+        line,
+        rawLine: toRawLine(cells),
+      });
+    }
+    const row: CSVRow = {};
+    fields.forEach((field, index) => {
+      row[field] = cells[index] ?? '';
+    });
+    return row;
+  };
+
+  const read = (records: string[][], errors: ParseError[] = []): CSVRow[] => {
+    const rows: CSVRow[] = [];
+    // Data row index of each record in the batch, or null for blank lines,
+    // title rows and the header.
+    const dataRows: (number | null)[] = [];
+    // File line each record starts on; quoted fields can span several lines.
+    const lines = records.map(cells => {
+      const line = linesRead + 1;
+      linesRead += 1;
+      cells.forEach(cell => {
+        linesRead += cell.match(LINE_BREAK_PATTERN)?.length ?? 0;
+      });
+      return line;
+    });
+    records.forEach((cells, index) => {
+      if (cells.length === 1 && cells[0] === '') {
+        dataRows.push(null);
+        return;
+      }
+      recordsSeen += 1;
+      if (recordsSeen <= options.skipRows) {
+        dataRows.push(null);
+        return;
+      }
+      if (options.hasHeader && recordsSeen === leadingRecords) {
+        fields = uniqueFieldNames(cells);
+        dataRows.push(null);
+        return;
+      }
+      dataRows.push(rowsParsed);
+      rows.push(toRow(cells, lines[index]));
+      rowsParsed += 1;
+    });
+    errors.forEach(error => {
+      const cells = error.row === undefined ? undefined : records[error.row];
+      issues.push({
+        row: error.row === undefined ? null : dataRows[error.row] ?? null,
+        line: error.row === undefined ? null : lines[error.row] ?? null,
+        type: error.type,
+        code: error.code,
+        message: error.message,
+        rawLine: cells ? toRawLine(cells) : '',
+      });
+    });
+    return rows;
+  };
+
+  return {
+    read,
+    fields: () => fields,
+    issues: () => issues,
+    rowsParsed: () => rowsParsed,
+  };
+};
@@ -0,0 +1,120 @@
+import Papa from 'papaparse';
+import { describe, expect, it } from 'vitest';
+import { applySchema, inferSchema, parseValue } from './columnTypes';
+import { createRecordReader } from './csvRecords';
+import { serializeCSV } from './csvSerializer';
+import { DEFAULT_IMPORT_OPTIONS } from './importOptions';
+import { getRowId, withRowIds } from './rowIds';
+
+// Parses text with the import worker's record reader, then types it like a
+// freshly loaded file.
+const load = (text: string, options = DEFAULT_IMPORT_OPTIONS) => {
+  const parsed = Papa.parse<string[]>(text, {
+    header: false,
+    skipEmptyLines: false,
+    delimiter: options.delimiter,
+    quoteChar: options.quoteChar,
+  });
+  const reader = createRecordReader(options);
+  const rows = reader.read(parsed.data, parsed.errors);
+  const headers = reader.fields();
+  const schema = inferSchema(rows, headers);
+  return { headers, schema, data: withRowIds(applySchema(rows, headers, schema)), issues: reader.issues() };
+};
+
+// Sets one cell through the same parsing the grid's cell editor uses.
+const edit = (loaded: ReturnType<typeof load>, rowIndex: number, column: string, input: string) => {
+  const value = parseValue(input, loaded.schema[column].type);
+  if (value === null) {
+    throw new Error(`"${input}" is not a valid ${loaded.schema[column].type}`);
+  }
+  return loaded.data.map((row, index) => (index === rowIndex ? { ...row, [column]: value } : row));
+};
+
+const roundTrip = (text: string, lineEnding = '\n') => {
+  const loaded = load(text);
+  return serializeCSV(loaded.data, loaded.headers, { lineEnding });
+};
+
+describe('CSV round trip', () => {
+  it('reproduces quoted fields with delimiters and escaped quotes', () => {
+    const text = 'name,quote\n"Smith, Jane","She said ""hi"""\nBob,plain';
+    expect(roundTrip(text)).toBe(text);
+  });
+
+  it('keeps embedded newlines and CRLF line endings', () => {
+    const text = 'id,note\r\n1,"first line\nsecond line"\r\n2,"windows\r\nbreak"';
+    expect(roundTrip(text, '\r\n')).toBe(text);
+  });
+
+  it('keeps Unicode text and drops a leading BOM from the header', () => {
+    const text = '\uFEFFcity,greeting\nZürich,Grüezi\n東京,こんにちは\nLagos,👋🏾';
+    const loaded = load(text);
+    expect(loaded.headers).toEqual(['city', 'greeting']);
+    expect(serializeCSV(loaded.data, loaded.headers)).toBe(text.slice(1));
+  });
+
+  it('keeps empty fields empty', () => {
+    const text = 'a,b,c\n,,\n1,,3\n,2,';
+    expect(roundTrip(text)).toBe(text);
+  });
+
+  it('keeps 0 and false instead of blanking them', () => {
+    const text = 'count,active\n0,false\n5,true';
+    const loaded = load(text);
+    expect(loaded.data[0].count).toBe(0);
+    expect(loaded.data[0].active).toBe(false);
+    expect(serializeCSV(loaded.data, loaded.headers)).toBe(text);
+  });
+
+  it('keeps leading and trailing whitespace', () => {
+    const text = 'label,amount\n" padded ", 42 \ntrailing ,7';
+    const loaded = load(text);
+    expect(loaded.schema.amount.type).toBe('integer');
+    expect(loaded.data[0].amount).toBe(' 42 ');
+    expect(serializeCSV(loaded.data, loaded.headers)).toBe(
+      'label,amount\n" padded "," 42 "\n"trailing ",7'
+    );
+  });
+
+  it('keeps leading zeros', () => {
+    const text = 'zip,code\n02134,007\n90210,042';
+    const loaded = load(text);
+    expect(loaded.schema.zip.type).toBe('text');
+    expect(serializeCSV(loaded.data, loaded.headers)).toBe(text);
+  });
+
+  it('keeps decimals with trailing zeros and integers beyond the safe range', () => {
+    const text = 'price,id\n1.50,12345678901234567890\n2.00,1\n1.0,2';
+    const loaded = load(text);
+    expect(loaded.schema.price.type).toBe('number');
+    expect(loaded.schema.id.type).toBe('text');
+    expect(serializeCSV(loaded.data, loaded.headers)).toBe(text);
+  });
+
+  it('changes only the edited cell', () => {
+    const text = 'name,price,note\n"Smith, Jane",1.50,"two\nlines"\nBob,2.00,\n" Ann ",0,x';
+    const loaded = load(text);
+    const edited = edit(loaded, 1, 'price', '3.25');
+    expect(edited.map(getRowId)).toEqual(loaded.data.map(getRowId));
+
+    const exported = serializeCSV(edited, loaded.headers);
+    expect(exported).toBe('name,price,note\n"Smith, Jane",1.50,"two\nlines"\nBob,3.25,\n" Ann ",0,x');
+
+    const reloaded = load(exported);
+    expect(reloaded.headers).toEqual(loaded.headers);
+    expect(serializeCSV(reloaded.data, reloaded.headers)).toBe(exported);
+  });
+
+  it('skips blank lines and title rows and reports issues by data row and file line', () => {
+    const text = 'Report\n\nid,id,\n1,a,"two\nlines"\n\n2,b\n3,c,y,extra';
+    const loaded = load(text, { ...DEFAULT_IMPORT_OPTIONS, skipRows: 1 });
+    expect(loaded.headers).toEqual(['id', 'id_2', 'Column 3']);
+    expect(loaded.data.map(row => row.id)).toEqual([1, 2, 3]);
+    expect(loaded.issues.map(issue => [issue.row, issue.line, issue.code])).toEqual([
+      [1, 7, 'TooFewFields'],
+      [2, 8, 'TooManyFields'],
+    ]);
+    expect(loaded.issues[1].rawLine).toBe('3,c,y,extra');
+  });
+});
@@ -0,0 +1,55 @@
+import { CellValue, CSVRow } from '../types/csv';
+
+export interface CSVSerializeOptions {
+  delimiter?: string;
+  lineEnding?: string;
+  quoteAll?: boolean;
+}
+
+const EDGE_WHITESPACE_PATTERN = /^\s|\s$/;
+
+/**
+ * Converts a cell to its text form. `0` and `false` are real values and must
+ * not collapse into empty cells, so only null/undefined become ''.
+ */
+export const cellToText = (value: CellValue | null | undefined): string =>
+  value === null || value === undefined ? '' : String(value);
+
+/**
+ * Quotes a field when a parser could otherwise misread it: delimiters, quotes
+ * and line breaks, plus leading or trailing whitespace, which many tools trim
+ * from unquoted fields. Leading zeros survive because text is written verbatim.
+ */
+export const formatCSVField = (
+  value: CellValue | null | undefined,
+  delimiter = ',',
+  quoteAll = false,
+): string => {
+  const text = cellToText(value);
+  const needsQuotes = quoteAll
+    || text.includes(delimiter)
+    || text.includes('"')
+    || text.includes('\n')
+    || text.includes('\r')
+    || EDGE_WHITESPACE_PATTERN.test(text);
+
+  return needsQuotes ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serializes rows to delimited text. Only `headers` are written, which keeps
+ * internal keys such as row IDs out of the file.
+ */
+export const serializeCSV = (
+  data: CSVRow[],
+  headers: string[],
+  { delimiter = ',', lineEnding = '\n', quoteAll = false }: CSVSerializeOptions = {},
+): string => {
+  const lines = [headers.map(header => formatCSVField(header, delimiter, quoteAll)).join(delimiter)];
+
+  data.forEach(row => {
+    lines.push(headers.map(header => formatCSVField(row[header], delimiter, quoteAll)).join(delimiter));
+  });
+
+  return lines.join(lineEnding);
+};
@@ -0,0 +1,56 @@
+const DB_NAME = 'csv-data-manager';
+const DB_VERSION = 2;
+
+export const SESSIONS_STORE = 'sessions';
+export const RECENT_FILES_STORE = 'recentFiles';
+export const SAVED_VIEWS_STORE = 'savedViews';
+export const HISTORY_ENTRIES_STORE = 'historyEntries';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(RECENT_FILES_STORE)) {
+          db.createObjectStore(RECENT_FILES_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(SAVED_VIEWS_STORE)) {
+          db.createObjectStore(SAVED_VIEWS_STORE, { keyPath: 'name' });
+        }
+        if (!db.objectStoreNames.contains(HISTORY_ENTRIES_STORE)) {
+          db.createObjectStore(HISTORY_ENTRIES_STORE, { keyPath: ['sessionId', 'id'] });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry after a failed open.
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
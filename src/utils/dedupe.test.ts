@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { DedupeOptions, DedupeStrategy } from '../types/dedupe';
+import { applyDedupe, findDuplicateClusters } from './dedupe';
+import { getRowId, withRowIds } from './rowIds';
+
+const headers = ['email', 'name', 'phone'];
+const data = withRowIds([
+  { email: 'ann@example.com', name: 'Ann', phone: '' },
+  { email: 'bob@example.com', name: 'Bob', phone: '555-0101' },
+  { email: ' ANN@example.com', name: '', phone: '555-0100' },
+  { email: '', name: 'Blank', phone: '' },
+  { email: '', name: 'Blank too', phone: '' },
+  { email: 'ann@example.com', name: 'Annie', phone: '555-0199' },
+]);
+
+const options: DedupeOptions = { columns: ['email'], trim: true, ignoreCase: true, normalizeWhitespace: false };
+
+const dedupe = (strategy: DedupeStrategy, picks: Record<string, number> = {}) =>
+  applyDedupe(data, headers, findDuplicateClusters(data, headers, options), () => ({ strategy, picks }));
+
+const names = (rows: typeof data) => rows.map(row => row.name);
+
+describe('findDuplicateClusters', () => {
+  it('groups normalized matches and never groups blank keys', () => {
+    const clusters = findDuplicateClusters(data, headers, options);
+    expect(clusters.map(cluster => cluster.rows)).toEqual([[data[0], data[2], data[5]]]);
+    expect(findDuplicateClusters(data, headers, { ...options, trim: false, ignoreCase: false })[0].rows).toHaveLength(2);
+  });
+});
+
+describe('applyDedupe', () => {
+  it('keeps the first row of each cluster', () => {
+    const result = dedupe('first');
+    expect(result.removed).toBe(2);
+    expect(names(result.data)).toEqual(['Ann', 'Bob', 'Blank', 'Blank too']);
+  });
+
+  it('keeps the last row of each cluster in its own position', () => {
+    expect(names(dedupe('last').data)).toEqual(['Bob', 'Blank', 'Blank too', 'Annie']);
+  });
+
+  it('merges into the first row, taking the first non-empty value or the picked row', () => {
+    const merged = dedupe('merge').data[0];
+    expect(getRowId(merged)).toBe(getRowId(data[0]));
+    expect(merged).toMatchObject({ email: 'ann@example.com', name: 'Ann', phone: '555-0100' });
+
+    const picked = dedupe('merge', { phone: getRowId(data[5]), name: getRowId(data[2]) }).data[0];
+    expect(picked).toMatchObject({ name: '', phone: '555-0199' });
+  });
+});
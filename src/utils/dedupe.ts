@@ -0,0 +1,113 @@
+import { CellValue, CSVRow } from '../types/csv';
+import { ClusterResolution, DedupeOptions, DedupeStrategy, DuplicateCluster } from '../types/dedupe';
+import { isEmptyValue } from './columnTypes';
+import { getRowId } from './rowIds';
+
+export const DEDUPE_STRATEGIES: { value: DedupeStrategy; label: string }[] = [
+  { value: 'first', label: 'Keep first' },
+  { value: 'last', label: 'Keep last' },
+  { value: 'merge', label: 'Merge fields' },
+];
+
+const KEY_SEPARATOR = '\u0000';
+
+const normalizeValue = (value: CellValue | undefined, options: DedupeOptions): string => {
+  let text = value === undefined ? '' : String(value);
+  if (options.trim) text = text.trim();
+  if (options.normalizeWhitespace) text = text.replace(/\s+/g, ' ');
+  if (options.ignoreCase) text = text.toLowerCase();
+  return text;
+};
+
+/**
+ * Groups rows that are equal on the compared columns. Rows whose compared
+ * columns are all blank are never duplicates, so a missing key doesn't merge
+ * unrelated rows.
+ */
+export const findDuplicateClusters = (data: CSVRow[], headers: string[], options: DedupeOptions): DuplicateCluster[] => {
+  const columns = options.columns.length > 0 ? options.columns : headers;
+  const groups = new Map<string, CSVRow[]>();
+  data.forEach(row => {
+    if (columns.every(column => isEmptyValue(row[column]))) return;
+    const key = columns.map(column => normalizeValue(row[column], options)).join(KEY_SEPARATOR);
+    const rows = groups.get(key);
+    if (rows) {
+      rows.push(row);
+    } else {
+      groups.set(key, [row]);
+    }
+  });
+  const clusters: DuplicateCluster[] = [];
+  groups.forEach((rows, key) => {
+    if (rows.length > 1) {
+      clusters.push({ key, rows });
+    }
+  });
+  return clusters;
+};
+
+/** For each column, the ID of the row a merge takes its value from. */
+export const getMergeSources = (rows: CSVRow[], headers: string[], picks: Record<string, number>): Record<string, number> => {
+  const sources: Record<string, number> = {};
+  headers.forEach(header => {
+    const picked = rows.find(row => getRowId(row) === picks[header]);
+    const source = picked ?? rows.find(row => !isEmptyValue(row[header])) ?? rows[0];
+    sources[header] = getRowId(source);
+  });
+  return sources;
+};
+
+/** Combines a cluster into its first row, keeping that row's ID. */
+export const mergeCluster = (rows: CSVRow[], headers: string[], picks: Record<string, number>): CSVRow => {
+  const sources = getMergeSources(rows, headers, picks);
+  const merged = { ...rows[0] };
+  headers.forEach(header => {
+    const source = rows.find(row => getRowId(row) === sources[header]);
+    if (source) {
+      merged[header] = source[header];
+    }
+  });
+  return merged;
+};
+
+/** The row a cluster collapses into. */
+export const resolveCluster = (cluster: DuplicateCluster, headers: string[], resolution: ClusterResolution): CSVRow => {
+  switch (resolution.strategy) {
+    case 'first':
+      return cluster.rows[0];
+    case 'last':
+      return cluster.rows[cluster.rows.length - 1];
+    case 'merge':
+      return mergeCluster(cluster.rows, headers, resolution.picks);
+  }
+};
+
+/**
+ * Collapses every cluster into one row. Kept and merged rows stay where
+ * their source row was; the other rows of the cluster are removed.
+ */
+export const applyDedupe = (
+  data: CSVRow[],
+  headers: string[],
+  clusters: DuplicateCluster[],
+  getResolution: (cluster: DuplicateCluster) => ClusterResolution,
+): { data: CSVRow[]; removed: number } => {
+  // Row ID -> replacement row, or null to drop it.
+  const outcome = new Map<number, CSVRow | null>();
+  clusters.forEach(cluster => {
+    const kept = resolveCluster(cluster, headers, getResolution(cluster));
+    cluster.rows.forEach(row => outcome.set(getRowId(row), null));
+    outcome.set(getRowId(kept), kept);
+  });
+
+  const result: CSVRow[] = [];
+  data.forEach(row => {
+    const replacement = outcome.get(getRowId(row));
+    if (replacement === undefined) {
+      result.push(row);
+    } else if (replacement !== null) {
+      result.push(replacement);
+    }
+  });
+  return { data: result, removed: data.length - result.length };
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { CSVRow } from '../types/csv';
+import { applySchema, inferSchema } from './columnTypes';
+import { convertToJSON, convertToNDJSON, convertToXLSX } from './exporters';
+
+const rows: CSVRow[] = [{ price: '1.50', active: 'TRUE' }, { price: '1.5', active: 'false' }, { price: '2', active: '' }];
+const headers = ['price', 'active'];
+const schema = inferSchema(rows, headers);
+const data = applySchema(rows, headers, schema);
+
+describe('typed exports', () => {
+  it('writes number and boolean columns as numbers and booleans in JSON', () => {
+    expect(data[0].price).toBe('1.50');
+    expect(JSON.parse(convertToJSON(data, headers, schema))).toEqual([
+      { price: 1.5, active: true },
+      { price: 1.5, active: false },
+      { price: 2, active: '' },
+    ]);
+  });
+
+  it('writes one JSON object per line in NDJSON', () => {
+    expect(convertToNDJSON(data, headers, schema)).toBe(
+      '{"price":1.5,"active":true}\n{"price":1.5,"active":false}\n{"price":2,"active":""}\n'
+    );
+  });
+
+  it('writes number cells as numeric XLSX cells', () => {
+    const sheet = new TextDecoder().decode(convertToXLSX(data, headers, schema));
+    expect(sheet).toContain('<c r="A2"><v>1.5</v></c>');
+    expect(sheet).toContain('<c r="B2" t="b"><v>1</v></c>');
+    expect(sheet).not.toContain('>1.50<');
+  });
+
+  it('keeps text columns and values that do not fit the type as they are', () => {
+    const mixed: CSVRow[] = [{ code: '007', price: 'n/a' }];
+    const json = convertToJSON(mixed, ['code', 'price'], {
+      code: { type: 'text', inferredType: 'text' },
+      price: { type: 'number', inferredType: 'number' },
+    });
+    expect(JSON.parse(json)).toEqual([{ code: '007', price: 'n/a' }]);
+  });
+});
@@ -0,0 +1,57 @@
+import { CellValue, ColumnSchema, CSVRow } from '../types/csv';
+import { ExportFormat } from '../types/export';
+import { parseValue } from './columnTypes';
+import { createXlsx } from './xlsxWriter';
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { value: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv;charset=utf-8;' },
+  { value: 'tsv', label: 'TSV (tab-separated)', extension: 'tsv', mimeType: 'text/tab-separated-values;charset=utf-8;' },
+  { value: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json;charset=utf-8;' },
+  { value: 'ndjson', label: 'NDJSON (one object per line)', extension: 'ndjson', mimeType: 'application/x-ndjson;charset=utf-8;' },
+  { value: 'xlsx', label: 'Excel (.xlsx)', extension: 'xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+];
+
+export const getExportFormat = (format: ExportFormat) =>
+  EXPORT_FORMATS.find(option => option.value === format) || EXPORT_FORMATS[0];
+
+/**
+ * Typed formats write number, integer and boolean columns as real numbers and
+ * booleans. Cells keep their original text ("1.50") in the dataset, so they
+ * are parsed here; values that don't fit the type are written as they are.
+ */
+const toExportValue = (value: CellValue | undefined, header: string, schema: ColumnSchema): CellValue => {
+  const type = schema[header]?.type;
+  if (value === undefined) return '';
+  if (type !== 'number' && type !== 'integer' && type !== 'boolean') return value;
+  return parseValue(value, type) ?? value;
+};
+
+// Only header columns are exported, which keeps internal keys such as row IDs out.
+const toRecord = (row: CSVRow, headers: string[], schema: ColumnSchema): Record<string, CellValue> => {
+  const record: Record<string, CellValue> = {};
+  headers.forEach(header => {
+    record[header] = toExportValue(row[header], header, schema);
+  });
+  return record;
+};
+
+export const convertToJSON = (data: CSVRow[], headers: string[], schema: ColumnSchema): string =>
+  JSON.stringify(data.map(row => toRecord(row, headers, schema)), null, 2);
+
+export const convertToNDJSON = (data: CSVRow[], headers: string[], schema: ColumnSchema): string =>
+  data.map(row => JSON.stringify(toRecord(row, headers, schema))).join('\n') + (data.length > 0 ? '\n' : '');
+
+export const convertToXLSX = (data: CSVRow[], headers: string[], schema: ColumnSchema): Uint8Array<ArrayBuffer> =>
+  createXlsx([headers, ...data.map(row => headers.map(header => toExportValue(row[header], header, schema)))]);
+
+export const downloadFile = (content: BlobPart, fileName: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  window.URL.revokeObjectURL(url);
+};
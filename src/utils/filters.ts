@@ -0,0 +1,282 @@
+import { CellValue, ColumnSchema, ColumnType, CSVRow } from '../types/csv';
+import { FilterCombinator, FilterCondition, FilterGroup, FilterNode, FilterOperator } from '../types/filter';
+import { isEmptyValue, parseDate, parseValue, toNumber } from './columnTypes';
+
+interface OperatorDefinition {
+  value: FilterOperator;
+  label: string;
+  operands: 0 | 1 | 2;
+}
+
+type RowPredicate = (row: CSVRow) => boolean;
+
+const EMPTINESS_OPERATORS: OperatorDefinition[] = [
+  { value: 'isEmpty', label: 'is empty', operands: 0 },
+  { value: 'isNotEmpty', label: 'is not empty', operands: 0 },
+];
+
+const NUMBER_OPERATORS: OperatorDefinition[] = [
+  { value: 'equals', label: '=', operands: 1 },
+  { value: 'notEquals', label: '≠', operands: 1 },
+  { value: 'gt', label: '>', operands: 1 },
+  { value: 'gte', label: '≥', operands: 1 },
+  { value: 'lt', label: '<', operands: 1 },
+  { value: 'lte', label: '≤', operands: 1 },
+  { value: 'between', label: 'between', operands: 2 },
+  { value: 'inList', label: 'is one of', operands: 1 },
+  ...EMPTINESS_OPERATORS,
+];
+
+const OPERATORS_BY_TYPE: Record<ColumnType, OperatorDefinition[]> = {
+  text: [
+    { value: 'contains', label: 'contains', operands: 1 },
+    { value: 'notContains', label: 'does not contain', operands: 1 },
+    { value: 'equals', label: 'equals', operands: 1 },
+    { value: 'notEquals', label: 'does not equal', operands: 1 },
+    { value: 'startsWith', label: 'starts with', operands: 1 },
+    { value: 'endsWith', label: 'ends with', operands: 1 },
+    { value: 'regex', label: 'matches regex', operands: 1 },
+    { value: 'inList', label: 'is one of', operands: 1 },
+    ...EMPTINESS_OPERATORS,
+  ],
+  number: NUMBER_OPERATORS,
+  integer: NUMBER_OPERATORS,
+  date: [
+    { value: 'equals', label: 'on', operands: 1 },
+    { value: 'gt', label: 'after', operands: 1 },
+    { value: 'gte', label: 'on or after', operands: 1 },
+    { value: 'lt', label: 'before', operands: 1 },
+    { value: 'lte', label: 'on or before', operands: 1 },
+    { value: 'between', label: 'between', operands: 2 },
+    ...EMPTINESS_OPERATORS,
+  ],
+  boolean: [
+    { value: 'equals', label: 'is', operands: 1 },
+    ...EMPTINESS_OPERATORS,
+  ],
+};
+
+export const getFilterOperators = (type: ColumnType): OperatorDefinition[] => OPERATORS_BY_TYPE[type];
+
+const getOperator = (type: ColumnType, operator: FilterOperator) =>
+  OPERATORS_BY_TYPE[type].find(option => option.value === operator);
+
+let nextFilterId = 1;
+
+const createFilterId = () => nextFilterId++;
+
+export const createCondition = (column: string, type: ColumnType): FilterCondition => ({
+  kind: 'condition',
+  id: createFilterId(),
+  column,
+  operator: OPERATORS_BY_TYPE[type][0].value,
+  value: '',
+  valueTo: '',
+});
+
+export const createFilterGroup = (combinator: FilterCombinator = 'and', children: FilterNode[] = []): FilterGroup => ({
+  kind: 'group',
+  id: createFilterId(),
+  combinator,
+  children,
+});
+
+/** Copies a filter tree with fresh IDs, e.g. when applying a saved view. */
+export const cloneFilter = (group: FilterGroup): FilterGroup => ({
+  ...group,
+  id: createFilterId(),
+  children: group.children.map(child =>
+    child.kind === 'group' ? cloneFilter(child) : { ...child, id: createFilterId() }
+  ),
+});
+
+export const updateFilterNode = (group: FilterGroup, id: number, update: (node: FilterNode) => FilterNode): FilterGroup => {
+  if (group.id === id) {
+    return update(group) as FilterGroup;
+  }
+  return {
+    ...group,
+    children: group.children.map(child => {
+      if (child.id === id) return update(child);
+      return child.kind === 'group' ? updateFilterNode(child, id, update) : child;
+    }),
+  };
+};
+
+export const removeFilterNode = (group: FilterGroup, id: number): FilterGroup => ({
+  ...group,
+  children: group.children
+    .filter(child => child.id !== id)
+    .map(child => (child.kind === 'group' ? removeFilterNode(child, id) : child)),
+});
+
+export const addFilterNode = (group: FilterGroup, parentId: number, node: FilterNode): FilterGroup =>
+  updateFilterNode(group, parentId, parent =>
+    parent.kind === 'group' ? { ...parent, children: [...parent.children, node] } : parent
+  );
+
+const mapConditions = (group: FilterGroup, map: (condition: FilterCondition) => FilterCondition | null): FilterGroup => ({
+  ...group,
+  children: group.children.flatMap(child => {
+    const mapped = child.kind === 'group' ? mapConditions(child, map) : map(child);
+    return mapped ? [mapped] : [];
+  }),
+});
+
+export const getFilterColumns = (group: FilterGroup): string[] =>
+  group.children.flatMap(child => (child.kind === 'group' ? getFilterColumns(child) : [child.column]));
+
+export const pruneFilterColumns = (group: FilterGroup, columns: string[]): FilterGroup =>
+  mapConditions(group, condition => (columns.includes(condition.column) ? condition : null));
+
+export const renameFilterColumn = (group: FilterGroup, from: string, to: string): FilterGroup =>
+  mapConditions(group, condition => (condition.column === from ? { ...condition, column: to } : condition));
+
+// Numbers and dates compare as numbers; null means the value doesn't fit.
+const toComparable = (value: CellValue, type: ColumnType): number | null => {
+  switch (type) {
+    case 'number':
+    case 'integer':
+      return toNumber(value);
+    case 'date':
+      return isEmptyValue(value) ? null : parseDate(String(value));
+    case 'boolean': {
+      const parsed = parseValue(value, 'boolean');
+      return typeof parsed === 'boolean' ? Number(parsed) : null;
+    }
+    case 'text':
+      return null;
+  }
+};
+
+const normalizeText = (value: CellValue | undefined) => String(value ?? '').trim().toLowerCase();
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+const describeType = (type: ColumnType) =>
+  type === 'integer' || type === 'number' ? 'a number' : type === 'date' ? 'a date' : 'true or false';
+
+/**
+ * Explains why a condition can't be applied yet. Incomplete conditions are
+ * skipped during filtering rather than hiding every row.
+ */
+export const getConditionError = (condition: FilterCondition, type: ColumnType): string | null => {
+  const definition = getOperator(type, condition.operator);
+  if (!definition) {
+    return 'Choose an operator';
+  }
+  if (definition.operands === 0) {
+    return null;
+  }
+  const operands = definition.operands === 2 ? [condition.value, condition.valueTo] : [condition.value];
+  if (operands.every(operand => operand.trim() === '')) {
+    return 'Enter a value';
+  }
+  if (condition.operator === 'regex') {
+    try {
+      new RegExp(condition.value);
+    } catch {
+      return 'Invalid regular expression';
+    }
+    return null;
+  }
+  if (type !== 'text') {
+    const values = condition.operator === 'inList' ? splitList(condition.value) : operands.filter(operand => operand.trim() !== '');
+    if (values.some(value => toComparable(value, type) === null)) {
+      return `Enter ${describeType(type)}`;
+    }
+  }
+  return null;
+};
+
+const compileCondition = (condition: FilterCondition, type: ColumnType): RowPredicate | null => {
+  if (getConditionError(condition, type)) {
+    return null;
+  }
+  const { column, operator } = condition;
+  const text = condition.value.trim().toLowerCase();
+
+  switch (operator) {
+    case 'isEmpty':
+      return row => isEmptyValue(row[column]);
+    case 'isNotEmpty':
+      return row => !isEmptyValue(row[column]);
+    case 'contains':
+      return row => normalizeText(row[column]).includes(text);
+    case 'notContains':
+      return row => !normalizeText(row[column]).includes(text);
+    case 'startsWith':
+      return row => normalizeText(row[column]).startsWith(text);
+    case 'endsWith':
+      return row => normalizeText(row[column]).endsWith(text);
+    case 'regex': {
+      const pattern = new RegExp(condition.value, 'i');
+      return row => pattern.test(String(row[column] ?? ''));
+    }
+  }
+
+  if (type === 'text') {
+    const targets = operator === 'inList' ? splitList(text) : [text];
+    const matches = (row: CSVRow) => targets.includes(normalizeText(row[column]));
+    return operator === 'notEquals' ? row => !matches(row) : matches;
+  }
+
+  // Typed comparison, so "1" no longer matches 10 or 100 in a number column.
+  const cell = (row: CSVRow) => toComparable(row[column], type);
+  const target = toComparable(condition.value, type);
+  const targetTo = toComparable(condition.valueTo, type);
+
+  switch (operator) {
+    case 'equals':
+      return row => cell(row) === target;
+    case 'notEquals':
+      return row => cell(row) !== target;
+    case 'inList': {
+      const targets = new Set(splitList(condition.value).map(value => toComparable(value, type)));
+      return row => targets.has(cell(row));
+    }
+    case 'gt':
+      return row => { const value = cell(row); return value !== null && value > (target as number); };
+    case 'gte':
+      return row => { const value = cell(row); return value !== null && value >= (target as number); };
+    case 'lt':
+      return row => { const value = cell(row); return value !== null && value < (target as number); };
+    case 'lte':
+      return row => { const value = cell(row); return value !== null && value <= (target as number); };
+    case 'between':
+      // Either bound may be left open.
+      return row => {
+        const value = cell(row);
+        return value !== null
+          && (target === null || value >= target)
+          && (targetTo === null || value <= targetTo);
+      };
+  }
+};
+
+const compileGroup = (group: FilterGroup, schema: ColumnSchema): RowPredicate | null => {
+  const predicates = group.children
+    .map(child => child.kind === 'group'
+      ? compileGroup(child, schema)
+      : compileCondition(child, schema[child.column]?.type || 'text'))
+    .filter((predicate): predicate is RowPredicate => predicate !== null);
+
+  if (predicates.length === 0) {
+    return null;
+  }
+  return group.combinator === 'and'
+    ? row => predicates.every(predicate => predicate(row))
+    : row => predicates.some(predicate => predicate(row));
+};
+
+/** Builds a row predicate from a filter tree; empty trees match every row. */
+export const compileFilter = (group: FilterGroup, schema: ColumnSchema): RowPredicate =>
+  compileGroup(group, schema) || (() => true);
+
+export const countActiveConditions = (group: FilterGroup, schema: ColumnSchema): number =>
+  group.children.reduce((count, child) => {
+    if (child.kind === 'group') {
+      return count + countActiveConditions(child, schema);
+    }
+    return count + (getConditionError(child, schema[child.column]?.type || 'text') ? 0 : 1);
+  }, 0);
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { ColumnSchema } from '../types/csv';
+import { FindReplaceOptions } from '../types/findReplace';
+import { applyReplacements, findMatches, getFindError } from './findReplace';
+import { withRowIds } from './rowIds';
+
+const headers = ['name', 'phone', 'price'];
+const schema: ColumnSchema = {
+  name: { type: 'text', inferredType: 'text' },
+  phone: { type: 'text', inferredType: 'text' },
+  price: { type: 'number', inferredType: 'number' },
+};
+const data = withRowIds([
+  { name: 'Smith, Jane', phone: '555-0100', price: 'N/A' },
+  { name: 'Doe, John', phone: '555-0101', price: 2.5 },
+]);
+
+const options = (overrides: Partial<FindReplaceOptions>): FindReplaceOptions => ({
+  find: '',
+  replace: '',
+  columns: [],
+  matchCase: false,
+  wholeCell: false,
+  useRegex: false,
+  ...overrides,
+});
+
+const replaceAll = (overrides: Partial<FindReplaceOptions>) =>
+  applyReplacements(data, findMatches(data, headers, options(overrides)), schema);
+
+describe('findMatches', () => {
+  it('expands regex capture groups in the replacement', () => {
+    const matches = findMatches(data, headers, options({ find: '^(\\w+), (\\w+)$', replace: '$2 $1', useRegex: true }));
+    expect(matches.map(match => match.after)).toEqual(['Jane Smith', 'John Doe']);
+  });
+
+  it('inserts plain text replacements literally', () => {
+    const matches = findMatches(data, headers, options({ find: '555', replace: '$1' }));
+    expect(matches.map(match => match.after)).toEqual(['$1-0100', '$1-0101']);
+  });
+
+  it('only matches whole cells when asked', () => {
+    expect(findMatches(data, headers, options({ find: '555' }))).toHaveLength(2);
+    expect(findMatches(data, headers, options({ find: '555', wholeCell: true }))).toHaveLength(0);
+    expect(findMatches(data, headers, options({ find: 'n/a', wholeCell: true }))).toHaveLength(1);
+    expect(findMatches(data, headers, options({ find: 'n/a', wholeCell: true, matchCase: true }))).toHaveLength(0);
+  });
+
+  it('limits the search to the chosen columns', () => {
+    const matches = findMatches(data, headers, options({ find: '5', columns: ['price'] }));
+    expect(matches.map(match => [match.column, match.before])).toEqual([['price', '2.5']]);
+  });
+
+  it('rejects invalid and empty-matching patterns', () => {
+    expect(getFindError(options({ find: '(', useRegex: true }))).toBe('Invalid regular expression');
+    expect(getFindError(options({ find: 'x*', useRegex: true }))).toBe('Pattern matches empty text');
+    expect(findMatches(data, headers, options({ find: 'x*', useRegex: true }))).toEqual([]);
+  });
+});
+
+describe('applyReplacements', () => {
+  it('converts replaced text to the column type where it fits', () => {
+    const result = replaceAll({ find: 'N/A', replace: '0', wholeCell: true });
+    expect(result[0].price).toBe(0);
+    expect(result[1]).toBe(data[1]);
+  });
+
+  it('keeps replaced text that does not fit the column type as text', () => {
+    const result = replaceAll({ find: '2.5', replace: '2.50', wholeCell: true });
+    expect(result[1].price).toBe('2.50');
+    expect(replaceAll({ find: '2.5', replace: 'free' })[1].price).toBe('free');
+  });
+});
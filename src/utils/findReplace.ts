@@ -0,0 +1,82 @@
+import { ColumnSchema, CSVRow } from '../types/csv';
+import { FindReplaceOptions, ReplaceMatch } from '../types/findReplace';
+import { coerceValue } from './columnTypes';
+import { getRowId } from './rowIds';
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const buildPattern = (options: FindReplaceOptions): RegExp => {
+  const source = options.useRegex ? options.find : escapeRegex(options.find);
+  const pattern = options.wholeCell ? `^(?:${source})$` : source;
+  return new RegExp(pattern, options.matchCase ? 'g' : 'gi');
+};
+
+/** Explains why the search can't run yet, or returns null when it can. */
+export const getFindError = (options: FindReplaceOptions): string | null => {
+  if (options.find === '') {
+    return 'Enter text to find';
+  }
+  let pattern: RegExp;
+  try {
+    pattern = buildPattern(options);
+  } catch {
+    return 'Invalid regular expression';
+  }
+  // A pattern that matches nothing would replace between every character.
+  if (!options.wholeCell && pattern.test('')) {
+    return 'Pattern matches empty text';
+  }
+  return null;
+};
+
+/**
+ * Finds every cell the search matches and what it would become. Regex
+ * replacements can use capture groups ($1, $<name>); plain text replacements
+ * are inserted literally.
+ */
+export const findMatches = (data: CSVRow[], headers: string[], options: FindReplaceOptions): ReplaceMatch[] => {
+  if (getFindError(options)) {
+    return [];
+  }
+  const pattern = buildPattern(options);
+  const columns = options.columns.length > 0 ? headers.filter(header => options.columns.includes(header)) : headers;
+  const matches: ReplaceMatch[] = [];
+
+  data.forEach(row => {
+    columns.forEach(column => {
+      const before = String(row[column] ?? '');
+      pattern.lastIndex = 0;
+      if (!pattern.test(before)) return;
+      const after = options.useRegex
+        ? before.replace(pattern, options.replace)
+        : before.replace(pattern, () => options.replace);
+      matches.push({ rowId: getRowId(row), column, before, after });
+    });
+  });
+
+  return matches;
+};
+
+/**
+ * Returns `data` with the matches applied. Replaced text is converted to the
+ * column type where it fits, the same way loaded values are.
+ */
+export const applyReplacements = (data: CSVRow[], matches: ReplaceMatch[], schema: ColumnSchema): CSVRow[] => {
+  const byRow = new Map<number, ReplaceMatch[]>();
+  matches.forEach(match => {
+    if (match.after === match.before) return;
+    byRow.set(match.rowId, [...(byRow.get(match.rowId) || []), match]);
+  });
+
+  return data.map(row => {
+    const rowMatches = byRow.get(getRowId(row));
+    if (!rowMatches) {
+      return row;
+    }
+    const updated: CSVRow = { ...row };
+    rowMatches.forEach(match => {
+      updated[match.column] = coerceValue(match.after, schema[match.column]?.type || 'text');
+    });
+    return updated;
+  });
+};
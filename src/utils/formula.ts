@@ -0,0 +1,467 @@
+import { CellValue, CSVRow } from '../types/csv';
+import { BinaryOperator, FormulaNode, FormulaValue } from '../types/formula';
+
+// Formulas are parsed into a small syntax tree and interpreted; nothing is
+// ever handed to eval or Function, so a formula can only read the row it is
+// evaluated against and call the functions listed here.
+
+type TokenKind = 'number' | 'string' | 'identifier' | 'column' | 'operator' | '(' | ')' | ',';
+
+interface Token {
+  kind: TokenKind;
+  text: string;
+  start: number;
+  end: number;
+}
+
+const OPERATORS = ['<=', '>=', '<>', '!=', '==', '+', '-', '*', '/', '%', '^', '&', '=', '<', '>'];
+const IDENTIFIER_START = /[\p{L}_]/u;
+const IDENTIFIER_PART = /[\p{L}\p{N}_]/u;
+const NUMBER_PATTERN = /^\d+(\.\d+)?([eE][-+]?\d+)?|^\.\d+([eE][-+]?\d+)?/;
+const SIMPLE_NAME_PATTERN = /^[\p{L}_][\p{L}\p{N}_]*$/u;
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    const start = i;
+
+    if (char === '"') {
+      let value = '';
+      i++;
+      while (i < text.length && !(text[i] === '"' && text[i + 1] !== '"')) {
+        value += text[i];
+        i += text[i] === '"' ? 2 : 1;
+      }
+      if (i >= text.length) {
+        throw new Error('Unterminated text in quotes');
+      }
+      i++;
+      tokens.push({ kind: 'string', text: value, start, end: i });
+      continue;
+    }
+
+    if (char === '[') {
+      const close = text.indexOf(']', i);
+      if (close === -1) {
+        throw new Error('Missing ] after column name');
+      }
+      tokens.push({ kind: 'column', text: text.slice(i + 1, close), start, end: close + 1 });
+      i = close + 1;
+      continue;
+    }
+
+    const number = NUMBER_PATTERN.exec(text.slice(i));
+    if (number) {
+      i += number[0].length;
+      tokens.push({ kind: 'number', text: number[0], start, end: i });
+      continue;
+    }
+
+    if (IDENTIFIER_START.test(char)) {
+      while (i < text.length && IDENTIFIER_PART.test(text[i])) i++;
+      tokens.push({ kind: 'identifier', text: text.slice(start, i), start, end: i });
+      continue;
+    }
+
+    if (char === '(' || char === ')' || char === ',') {
+      i++;
+      tokens.push({ kind: char, text: char, start, end: i });
+      continue;
+    }
+
+    const operator = OPERATORS.find(candidate => text.startsWith(candidate, i));
+    if (operator) {
+      i += operator.length;
+      tokens.push({ kind: 'operator', text: operator, start, end: i });
+      continue;
+    }
+
+    throw new Error(`Unexpected character "${char}"`);
+  }
+
+  return tokens;
+};
+
+const COMPARISON_OPERATORS: Record<string, BinaryOperator> = {
+  '=': '=', '==': '=', '<>': '<>', '!=': '<>', '<': '<', '<=': '<=', '>': '>', '>=': '>=',
+};
+
+/**
+ * Parses a formula such as `Salary * 1.1` or `IF(Age > 30, "senior", "junior")`.
+ * Columns are referenced by name, or in brackets when the name has spaces
+ * (`[Start Date]`). Throws an Error describing the first syntax problem.
+ */
+export const parseFormula = (text: string): FormulaNode => {
+  const tokens = tokenize(text);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const isOperator = (...operators: string[]) =>
+    peek()?.kind === 'operator' && operators.includes(peek().text);
+  const expect = (kind: TokenKind, description: string) => {
+    if (peek()?.kind !== kind) {
+      throw new Error(`Expected ${description}`);
+    }
+    return next();
+  };
+
+  const binaryLevel = (operators: string[], operand: () => FormulaNode, map = (op: string) => op as BinaryOperator) =>
+    (): FormulaNode => {
+      let left = operand();
+      while (isOperator(...operators)) {
+        const operator = map(next().text);
+        left = { kind: 'binary', operator, left, right: operand() };
+      }
+      return left;
+    };
+
+  const primary = (): FormulaNode => {
+    const token = next();
+    if (!token) {
+      throw new Error('Formula ends unexpectedly');
+    }
+    switch (token.kind) {
+      case 'number':
+        return { kind: 'literal', value: Number(token.text) };
+      case 'string':
+        return { kind: 'literal', value: token.text };
+      case 'column':
+        return { kind: 'column', name: token.text };
+      case '(': {
+        const inner = comparison();
+        expect(')', ')');
+        return inner;
+      }
+      case 'identifier': {
+        if (peek()?.kind === '(') {
+          next();
+          const args: FormulaNode[] = [];
+          if (peek()?.kind !== ')') {
+            args.push(comparison());
+            while (peek()?.kind === ',') {
+              next();
+              args.push(comparison());
+            }
+          }
+          expect(')', `) to close ${token.text}(`);
+          return { kind: 'call', name: token.text.toUpperCase(), args };
+        }
+        const upper = token.text.toUpperCase();
+        if (upper === 'TRUE' || upper === 'FALSE') {
+          return { kind: 'literal', value: upper === 'TRUE' };
+        }
+        return { kind: 'column', name: token.text };
+      }
+      default:
+        throw new Error(`Unexpected "${token.text}"`);
+    }
+  };
+
+  const unary = (): FormulaNode => {
+    if (isOperator('-', '+')) {
+      const operator = next().text;
+      const operand = unary();
+      return operator === '-' ? { kind: 'negate', operand } : operand;
+    }
+    return primary();
+  };
+
+  // Exponentiation is right-associative: 2^3^2 is 2^(3^2).
+  const power = (): FormulaNode => {
+    const base = unary();
+    if (isOperator('^')) {
+      next();
+      return { kind: 'binary', operator: '^', left: base, right: power() };
+    }
+    return base;
+  };
+
+  const multiplicative = binaryLevel(['*', '/', '%'], power);
+  const additive = binaryLevel(['+', '-'], multiplicative);
+  const concatenation = binaryLevel(['&'], additive);
+  const comparison = binaryLevel(Object.keys(COMPARISON_OPERATORS), concatenation, op => COMPARISON_OPERATORS[op]);
+
+  if (tokens.length === 0) {
+    throw new Error('Formula is empty');
+  }
+  const tree = comparison();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${peek().text}"`);
+  }
+  return tree;
+};
+
+const getFormulaReferences = (node: FormulaNode): string[] => {
+  switch (node.kind) {
+    case 'literal':
+      return [];
+    case 'column':
+      return [node.name];
+    case 'negate':
+      return getFormulaReferences(node.operand);
+    case 'binary':
+      return [...getFormulaReferences(node.left), ...getFormulaReferences(node.right)];
+    case 'call':
+      return node.args.flatMap(getFormulaReferences);
+  }
+};
+
+/** Rewrites references to a renamed column, leaving the rest of the text as typed. */
+export const renameFormulaColumn = (text: string, from: string, to: string): string => {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(text);
+  } catch {
+    return text;
+  }
+  const reference = SIMPLE_NAME_PATTERN.test(to) ? to : `[${to}]`;
+  let result = '';
+  let cursor = 0;
+  tokens.forEach((token, index) => {
+    const isCall = token.kind === 'identifier' && tokens[index + 1]?.kind === '(';
+    if ((token.kind === 'column' || (token.kind === 'identifier' && !isCall)) && token.text === from) {
+      result += text.slice(cursor, token.start) + reference;
+      cursor = token.end;
+    }
+  });
+  return result + text.slice(cursor);
+};
+
+const hasOwn = (target: object, key: string) => Object.prototype.hasOwnProperty.call(target, key);
+
+const isBlank = (value: FormulaValue) => value === null || value === '';
+
+const toNumber = (value: FormulaValue): number => {
+  if (isBlank(value)) return 0;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return Number(value);
+  const trimmed = value.trim();
+  const parsed = Number(trimmed);
+  if (trimmed === '' || Number.isNaN(parsed)) {
+    throw new Error(`"${value}" is not a number`);
+  }
+  return parsed;
+};
+
+const toText = (value: FormulaValue): string => (value === null ? '' : String(value));
+
+const toBoolean = (value: FormulaValue): boolean => {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  if (isBlank(value)) return false;
+  const lower = toText(value).trim().toLowerCase();
+  if (lower === 'true') return true;
+  if (lower === 'false') return false;
+  throw new Error(`"${value}" is not true or false`);
+};
+
+const finite = (value: number): number => {
+  if (!Number.isFinite(value)) {
+    throw new Error('Result is not a finite number');
+  }
+  return value;
+};
+
+// Numbers compare numerically, anything else as case-insensitive text.
+const compare = (left: FormulaValue, right: FormulaValue): number => {
+  const bothNumeric = [left, right].every(value => {
+    if (typeof value === 'number') return true;
+    if (typeof value !== 'string' || value.trim() === '') return false;
+    return !Number.isNaN(Number(value));
+  });
+  if (bothNumeric) {
+    return toNumber(left) - toNumber(right);
+  }
+  return toText(left).localeCompare(toText(right), undefined, { sensitivity: 'base' });
+};
+
+const applyBinary = (operator: BinaryOperator, left: FormulaValue, right: FormulaValue): FormulaValue => {
+  switch (operator) {
+    case '+':
+      return finite(toNumber(left) + toNumber(right));
+    case '-':
+      return finite(toNumber(left) - toNumber(right));
+    case '*':
+      return finite(toNumber(left) * toNumber(right));
+    case '/':
+      if (toNumber(right) === 0) throw new Error('Division by zero');
+      return finite(toNumber(left) / toNumber(right));
+    case '%':
+      if (toNumber(right) === 0) throw new Error('Division by zero');
+      return finite(toNumber(left) % toNumber(right));
+    case '^':
+      return finite(toNumber(left) ** toNumber(right));
+    case '&':
+      return toText(left) + toText(right);
+    case '=':
+      return compare(left, right) === 0;
+    case '<>':
+      return compare(left, right) !== 0;
+    case '<':
+      return compare(left, right) < 0;
+    case '<=':
+      return compare(left, right) <= 0;
+    case '>':
+      return compare(left, right) > 0;
+    case '>=':
+      return compare(left, right) >= 0;
+  }
+};
+
+interface FormulaFunction {
+  description: string;
+  minArgs: number;
+  maxArgs: number;
+  // Receives unevaluated arguments so IF and IFERROR only run the branch they need.
+  call: (args: FormulaNode[], evaluate: (node: FormulaNode) => FormulaValue) => FormulaValue;
+}
+
+const eager = (fn: (values: FormulaValue[]) => FormulaValue) =>
+  (args: FormulaNode[], evaluate: (node: FormulaNode) => FormulaValue) => fn(args.map(evaluate));
+
+const numbersOf = (values: FormulaValue[]) => values.filter(value => !isBlank(value)).map(toNumber);
+
+const FUNCTIONS: Record<string, FormulaFunction> = {
+  IF: {
+    description: 'IF(condition, then, else)',
+    minArgs: 2,
+    maxArgs: 3,
+    call: ([condition, then, otherwise], evaluate) =>
+      toBoolean(evaluate(condition)) ? evaluate(then) : otherwise ? evaluate(otherwise) : null,
+  },
+  IFERROR: {
+    description: 'IFERROR(value, fallback)',
+    minArgs: 2,
+    maxArgs: 2,
+    call: ([value, fallback], evaluate) => {
+      try {
+        return evaluate(value);
+      } catch {
+        return evaluate(fallback);
+      }
+    },
+  },
+  AND: { description: 'AND(a, b, ...)', minArgs: 1, maxArgs: Infinity, call: eager(values => values.every(toBoolean)) },
+  OR: { description: 'OR(a, b, ...)', minArgs: 1, maxArgs: Infinity, call: eager(values => values.some(toBoolean)) },
+  NOT: { description: 'NOT(value)', minArgs: 1, maxArgs: 1, call: eager(([value]) => !toBoolean(value)) },
+  ISBLANK: { description: 'ISBLANK(value)', minArgs: 1, maxArgs: 1, call: eager(([value]) => isBlank(value)) },
+  COALESCE: {
+    description: 'COALESCE(a, b, ...) — first non-empty value',
+    minArgs: 1,
+    maxArgs: Infinity,
+    call: eager(values => values.find(value => !isBlank(value)) ?? null),
+  },
+  CONCAT: { description: 'CONCAT(a, b, ...)', minArgs: 1, maxArgs: Infinity, call: eager(values => values.map(toText).join('')) },
+  UPPER: { description: 'UPPER(text)', minArgs: 1, maxArgs: 1, call: eager(([value]) => toText(value).toUpperCase()) },
+  LOWER: { description: 'LOWER(text)', minArgs: 1, maxArgs: 1, call: eager(([value]) => toText(value).toLowerCase()) },
+  TRIM: { description: 'TRIM(text)', minArgs: 1, maxArgs: 1, call: eager(([value]) => toText(value).trim()) },
+  LEN: { description: 'LEN(text)', minArgs: 1, maxArgs: 1, call: eager(([value]) => toText(value).length) },
+  LEFT: {
+    description: 'LEFT(text, count)',
+    minArgs: 2,
+    maxArgs: 2,
+    call: eager(([value, count]) => toText(value).slice(0, Math.max(0, toNumber(count)))),
+  },
+  RIGHT: {
+    description: 'RIGHT(text, count)',
+    minArgs: 2,
+    maxArgs: 2,
+    call: eager(([value, count]) => {
+      const text = toText(value);
+      return text.slice(Math.max(0, text.length - Math.max(0, toNumber(count))));
+    }),
+  },
+  ROUND: {
+    description: 'ROUND(number, digits)',
+    minArgs: 1,
+    maxArgs: 2,
+    call: eager(([value, digits]) => {
+      const factor = 10 ** (digits === undefined ? 0 : toNumber(digits));
+      return finite(Math.round(toNumber(value) * factor) / factor);
+    }),
+  },
+  ABS: { description: 'ABS(number)', minArgs: 1, maxArgs: 1, call: eager(([value]) => Math.abs(toNumber(value))) },
+  MIN: {
+    description: 'MIN(a, b, ...)',
+    minArgs: 1,
+    maxArgs: Infinity,
+    call: eager(values => {
+      const numbers = numbersOf(values);
+      return numbers.length > 0 ? Math.min(...numbers) : null;
+    }),
+  },
+  MAX: {
+    description: 'MAX(a, b, ...)',
+    minArgs: 1,
+    maxArgs: Infinity,
+    call: eager(values => {
+      const numbers = numbersOf(values);
+      return numbers.length > 0 ? Math.max(...numbers) : null;
+    }),
+  },
+};
+
+export const FORMULA_FUNCTIONS = Object.values(FUNCTIONS).map(fn => fn.description);
+
+/**
+ * Checks that every function exists with a valid number of arguments, and
+ * returns the columns the formula reads.
+ */
+export const checkFormula = (node: FormulaNode): string[] => {
+  const visit = (current: FormulaNode): void => {
+    switch (current.kind) {
+      case 'negate':
+        visit(current.operand);
+        break;
+      case 'binary':
+        visit(current.left);
+        visit(current.right);
+        break;
+      case 'call': {
+        const fn = hasOwn(FUNCTIONS, current.name) ? FUNCTIONS[current.name] : undefined;
+        if (!fn) {
+          throw new Error(`Unknown function ${current.name}`);
+        }
+        if (current.args.length < fn.minArgs || current.args.length > fn.maxArgs) {
+          throw new Error(`Wrong number of arguments: ${fn.description}`);
+        }
+        current.args.forEach(visit);
+        break;
+      }
+    }
+  };
+  visit(node);
+  return getFormulaReferences(node);
+};
+
+const readColumn = (row: CSVRow, name: string): FormulaValue => {
+  const value: CellValue | undefined = hasOwn(row, name) ? row[name] : undefined;
+  return value === undefined ? null : value;
+};
+
+/** Evaluates a checked formula against one row. Throws on errors such as division by zero. */
+export const evaluateFormula = (node: FormulaNode, row: CSVRow): FormulaValue => {
+  const evaluate = (current: FormulaNode): FormulaValue => {
+    switch (current.kind) {
+      case 'literal':
+        return current.value;
+      case 'column':
+        return readColumn(row, current.name);
+      case 'negate':
+        return -toNumber(evaluate(current.operand));
+      case 'binary':
+        return applyBinary(current.operator, evaluate(current.left), evaluate(current.right));
+      case 'call':
+        return FUNCTIONS[current.name].call(current.args, evaluate);
+    }
+  };
+  return evaluate(node);
+};
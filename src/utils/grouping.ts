@@ -0,0 +1,85 @@
+import { AggregateFunction, ColumnAggregates } from '../types/aggregation';
+import { CSVRow } from '../types/csv';
+import { computeAggregates } from './aggregation';
+
+export interface GroupHeaderItem {
+  isGroupHeader: true;
+  key: string;
+  depth: number;
+  column: string;
+  groupValue: string;
+  count: number;
+  collapsed: boolean;
+}
+
+export interface GroupSummaryItem {
+  isGroupSummary: true;
+  key: string;
+  depth: number;
+  aggregates: Record<string, ColumnAggregates>;
+}
+
+export type GroupedItem = CSVRow | GroupHeaderItem | GroupSummaryItem;
+
+// CSVRow's index signature defeats `in` narrowing, hence explicit guards.
+export const isGroupHeader = (item: GroupedItem): item is GroupHeaderItem => 'isGroupHeader' in item;
+
+export const isGroupSummary = (item: GroupedItem): item is GroupSummaryItem => 'isGroupSummary' in item;
+
+export const isGroupItem = (item: GroupedItem): item is GroupHeaderItem | GroupSummaryItem =>
+  isGroupHeader(item) || isGroupSummary(item);
+
+interface GroupingOptions {
+  columns: string[];
+  collapsed: Set<string>;
+  aggregateColumns: string[];
+  aggregateFunctions: AggregateFunction[];
+}
+
+/**
+ * Flattens rows into nested groups for display. Groups appear in the order of
+ * their first row, so the current sort decides group order too. Each group is
+ * identified by the path of values leading to it, which keeps its collapsed
+ * state stable across edits.
+ */
+export const buildGroupedRows = (rows: CSVRow[], options: GroupingOptions): GroupedItem[] => {
+  const items: GroupedItem[] = [];
+  const withSummaries = options.aggregateColumns.length > 0 && options.aggregateFunctions.length > 0;
+
+  const addGroups = (groupRows: CSVRow[], depth: number, path: string[]) => {
+    const column = options.columns[depth];
+    const groups = new Map<string, CSVRow[]>();
+    groupRows.forEach(row => {
+      const value = String(row[column] ?? '') || 'Unknown';
+      const group = groups.get(value);
+      if (group) {
+        group.push(row);
+      } else {
+        groups.set(value, [row]);
+      }
+    });
+
+    groups.forEach((members, groupValue) => {
+      const key = JSON.stringify([...path, groupValue]);
+      const collapsed = options.collapsed.has(key);
+      items.push({ isGroupHeader: true, key, depth, column, groupValue, count: members.length, collapsed });
+      if (withSummaries) {
+        items.push({
+          isGroupSummary: true,
+          key,
+          depth,
+          aggregates: computeAggregates(members, options.aggregateColumns, options.aggregateFunctions),
+        });
+      }
+      if (collapsed) return;
+      if (depth + 1 < options.columns.length) {
+        addGroups(members, depth + 1, [...path, groupValue]);
+      } else {
+        items.push(...members);
+      }
+    });
+  };
+
+  addGroups(rows, 0, []);
+  return items;
+};
@@ -0,0 +1,132 @@
+import { ImportOptions } from '../types/parser';
+
+export const DEFAULT_IMPORT_OPTIONS: ImportOptions = {
+  delimiter: ',',
+  encoding: 'utf-8',
+  quoteChar: '"',
+  hasHeader: true,
+  skipRows: 0,
+};
+
+export const DELIMITER_OPTIONS = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' },
+];
+
+export const ENCODING_OPTIONS = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'windows-1252', label: 'Windows-1252 (Western European)' },
+  { value: 'iso-8859-1', label: 'ISO-8859-1 (Latin-1)' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+];
+
+export const QUOTE_OPTIONS = [
+  { value: '"', label: 'Double quote (")' },
+  { value: "'", label: "Single quote (')" },
+];
+
+export const SUPPORTED_EXTENSIONS = ['.csv', '.tsv', '.txt'];
+
+export const isSupportedFile = (file: File): boolean =>
+  SUPPORTED_EXTENSIONS.some(extension => file.name.toLowerCase().endsWith(extension));
+
+const SAMPLE_BYTES = 64 * 1024;
+const SAMPLE_LINES = 50;
+const MAX_TITLE_ROWS = 10;
+const NUMERIC_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)$/;
+
+const detectEncoding = (bytes: Uint8Array): string => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  try {
+    // `stream` tolerates a multi-byte character cut off at the sample boundary.
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+};
+
+export const splitLine = (line: string, delimiter: string, quoteChar: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === quoteChar) {
+      if (inQuotes && line[i + 1] === quoteChar) {
+        current += char;
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === delimiter && !inQuotes) {
+      cells.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current);
+  return cells;
+};
+
+const mostCommon = (values: number[]): number => {
+  const counts = new Map<number, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  let best = 0;
+  let bestCount = 0;
+  counts.forEach((count, value) => {
+    if (count > bestCount || (count === bestCount && value > best)) {
+      best = value;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+/**
+ * Guesses import settings from the first few kilobytes of a file: encoding
+ * from the byte content, the delimiter that splits lines most consistently,
+ * title rows above the header, and whether the first row looks like a header.
+ */
+export const detectImportOptions = async (file: File): Promise<ImportOptions> => {
+  const bytes = new Uint8Array(await file.slice(0, SAMPLE_BYTES).arrayBuffer());
+  const encoding = detectEncoding(bytes);
+  const text = new TextDecoder(encoding).decode(bytes);
+  const lines = text.split(/\r\n|\n|\r/).filter(line => line.trim() !== '').slice(0, SAMPLE_LINES);
+  // The last line may be cut off by the sample boundary.
+  if (lines.length > 1 && file.size > SAMPLE_BYTES) lines.pop();
+
+  const quoteChar = DEFAULT_IMPORT_OPTIONS.quoteChar;
+  let delimiter = file.name.toLowerCase().endsWith('.tsv') ? '\t' : DEFAULT_IMPORT_OPTIONS.delimiter;
+  let bestScore = 0;
+  let fieldCounts: number[] = lines.map(line => splitLine(line, delimiter, quoteChar).length);
+
+  DELIMITER_OPTIONS.forEach(({ value }) => {
+    const counts = lines.map(line => splitLine(line, value, quoteChar).length);
+    const modal = mostCommon(counts);
+    if (modal < 2) return;
+    const consistent = counts.filter(count => count === modal).length;
+    const score = consistent * modal;
+    if (score > bestScore) {
+      bestScore = score;
+      delimiter = value;
+      fieldCounts = counts;
+    }
+  });
+
+  const modalCount = mostCommon(fieldCounts);
+  const firstTableLine = fieldCounts.findIndex(count => count === modalCount);
+  const skipRows = firstTableLine > 0 && firstTableLine <= MAX_TITLE_ROWS ? firstTableLine : 0;
+
+  const headerCells = lines[skipRows] ? splitLine(lines[skipRows], delimiter, quoteChar).map(cell => cell.trim()) : [];
+  const hasHeader = headerCells.length === 0 || (
+    headerCells.every(cell => cell !== '' && !NUMERIC_PATTERN.test(cell)) &&
+    new Set(headerCells).size === headerCells.length
+  );
+
+  return { delimiter, encoding, quoteChar, hasHeader, skipRows };
+};
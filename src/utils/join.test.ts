@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { DatasetState } from '../types/csv';
+import { JoinConfig, JoinType } from '../types/join';
+import { analyzeJoin, getJoinError, joinDatasets } from './join';
+
+const left: DatasetState = {
+  data: [
+    { id: 1, name: 'Ann' },
+    { id: 2, name: 'Bob' },
+    { id: '', name: 'Nobody' },
+  ],
+  headers: ['id', 'name'],
+  schema: {
+    id: { type: 'integer', inferredType: 'integer' },
+    name: { type: 'text', inferredType: 'text' },
+  },
+};
+
+// Keys typed as text on the right, as in a file where the column held a
+// non-numeric value.
+const right: DatasetState = {
+  data: [
+    { id: '1', name: 'North' },
+    { id: '1', name: 'South' },
+    { id: '3', name: 'East' },
+  ],
+  headers: ['id', 'name'],
+  schema: {
+    id: { type: 'text', inferredType: 'text' },
+    name: { type: 'text', inferredType: 'text' },
+  },
+};
+
+const config = (type: JoinType): JoinConfig => ({
+  type,
+  leftKeys: ['id'],
+  rightKeys: ['id'],
+  leftPrefix: 'left_',
+  rightPrefix: 'right_',
+});
+
+const join = (type: JoinType) => joinDatasets(left, right, config(type));
+
+describe('joinDatasets', () => {
+  it('merges a shared key column and prefixes other shared names', () => {
+    const result = join('inner');
+    expect(result.headers).toEqual(['id', 'left_name', 'right_name']);
+    expect(result.schema.id.type).toBe('integer');
+  });
+
+  it('repeats a row once per duplicate key match in an inner join', () => {
+    expect(join('inner').data).toEqual([
+      { id: 1, left_name: 'Ann', right_name: 'North' },
+      { id: 1, left_name: 'Ann', right_name: 'South' },
+    ]);
+  });
+
+  it('keeps unmatched and blank-key left rows in a left join', () => {
+    expect(join('left').data.slice(2)).toEqual([
+      { id: 2, left_name: 'Bob', right_name: '' },
+      { id: '', left_name: 'Nobody', right_name: '' },
+    ]);
+  });
+
+  it('adds right-only rows last with their key coerced to the key column type', () => {
+    const result = join('right');
+    expect(result.data).toHaveLength(3);
+    expect(result.data[2]).toEqual({ id: 3, left_name: '', right_name: 'East' });
+  });
+
+  it('keeps every row of both sides in a full join', () => {
+    const result = join('full');
+    expect(result.data.map(row => row.id)).toEqual([1, 1, 2, '', 3]);
+    expect(analyzeJoin(left.data, right.data, config('full'))).toEqual({
+      matchedLeftRows: 1,
+      unmatchedLeftRows: 2,
+      matchedRightRows: 2,
+      unmatchedRightRows: 1,
+      duplicateLeftKeys: 0,
+      duplicateRightKeys: 1,
+      resultRows: 5,
+    });
+  });
+
+  it('rejects prefixes that would produce clashing column names', () => {
+    expect(getJoinError(left.headers, right.headers, { ...config('inner'), leftPrefix: '', rightPrefix: '' }))
+      .toBe('The result would have two "name" columns; use different prefixes');
+  });
+});
@@ -0,0 +1,196 @@
+import { CellValue, ColumnSchema, CSVRow, DatasetState } from '../types/csv';
+import { JoinConfig, JoinSummary, JoinType } from '../types/join';
+import { coerceValue, isEmptyValue } from './columnTypes';
+import { ROW_ID_KEY } from './rowIds';
+
+export const JOIN_TYPES: { value: JoinType; label: string; description: string }[] = [
+  { value: 'inner', label: 'Inner', description: 'Only rows whose key is in both files' },
+  { value: 'left', label: 'Left', description: 'Every left row, with right values where the key matches' },
+  { value: 'right', label: 'Right', description: 'Every right row, with left values where the key matches' },
+  { value: 'full', label: 'Full outer', description: 'Every row of both files, matched where possible' },
+];
+
+interface JoinColumn {
+  header: string;
+  side: 'left' | 'right';
+  source: string;
+  // Set on a key column shared by both sides, so right-only rows keep their key.
+  rightSource?: string;
+}
+
+const KEY_SEPARATOR = '\u0000';
+
+// A blank key never matches anything, like NULL in SQL.
+const getKey = (row: CSVRow, columns: string[]): string | null => {
+  const parts: string[] = [];
+  for (const column of columns) {
+    const value = row[column];
+    if (isEmptyValue(value)) return null;
+    parts.push(String(value).trim());
+  }
+  return parts.join(KEY_SEPARATOR);
+};
+
+const indexRows = (rows: CSVRow[], columns: string[]): Map<string, CSVRow[]> => {
+  const index = new Map<string, CSVRow[]>();
+  rows.forEach(row => {
+    const key = getKey(row, columns);
+    if (key === null) return;
+    const matches = index.get(key);
+    if (matches) {
+      matches.push(row);
+    } else {
+      index.set(key, [row]);
+    }
+  });
+  return index;
+};
+
+const countDuplicateKeys = (index: Map<string, CSVRow[]>): number =>
+  Array.from(index.values()).filter(rows => rows.length > 1).length;
+
+const keepsUnmatched = (type: JoinType, side: 'left' | 'right') =>
+  type === 'full' || type === side;
+
+/**
+ * Lays out the result columns: left columns first, then right ones. A key
+ * pair with the same name on both sides becomes one column; any other name
+ * found on both sides gets that side's prefix.
+ */
+const getJoinColumns = (leftHeaders: string[], rightHeaders: string[], config: JoinConfig): JoinColumn[] => {
+  const sharedKeys = config.leftKeys.filter((key, i) => key === config.rightKeys[i]);
+  const left = leftHeaders.map((header): JoinColumn => {
+    if (sharedKeys.includes(header)) {
+      return { header, side: 'left', source: header, rightSource: header };
+    }
+    return {
+      header: rightHeaders.includes(header) ? `${config.leftPrefix}${header}` : header,
+      side: 'left',
+      source: header,
+    };
+  });
+  const right = rightHeaders
+    .filter(header => !sharedKeys.includes(header))
+    .map((header): JoinColumn => ({
+      header: leftHeaders.includes(header) ? `${config.rightPrefix}${header}` : header,
+      side: 'right',
+      source: header,
+    }));
+  return [...left, ...right];
+};
+
+export const getJoinError = (leftHeaders: string[], rightHeaders: string[], config: JoinConfig): string | null => {
+  if (config.leftKeys.length === 0) {
+    return 'Choose at least one key column';
+  }
+  if (config.leftKeys.length !== config.rightKeys.length) {
+    return 'Each left key needs a matching right key';
+  }
+  const missing = [
+    ...config.leftKeys.filter(key => !leftHeaders.includes(key)),
+    ...config.rightKeys.filter(key => !rightHeaders.includes(key)),
+  ];
+  if (missing.length > 0) {
+    return `Unknown key column "${missing[0]}"`;
+  }
+  const seen = new Set<string>();
+  for (const { header } of getJoinColumns(leftHeaders, rightHeaders, config)) {
+    if (header.trim() === '') {
+      return 'Column names cannot be empty';
+    }
+    if (header === ROW_ID_KEY) {
+      return `"${ROW_ID_KEY}" is reserved; use different prefixes`;
+    }
+    if (seen.has(header)) {
+      return `The result would have two "${header}" columns; use different prefixes`;
+    }
+    seen.add(header);
+  }
+  return null;
+};
+
+/** Counts matches and duplicates without building the result. */
+export const analyzeJoin = (left: CSVRow[], right: CSVRow[], config: JoinConfig): JoinSummary => {
+  const leftIndex = indexRows(left, config.leftKeys);
+  const rightIndex = indexRows(right, config.rightKeys);
+  let matchedLeftRows = 0;
+  let matchedPairs = 0;
+  left.forEach(row => {
+    const key = getKey(row, config.leftKeys);
+    const matches = key === null ? undefined : rightIndex.get(key);
+    if (matches) {
+      matchedLeftRows++;
+      matchedPairs += matches.length;
+    }
+  });
+  const matchedRightRows = right.filter(row => {
+    const key = getKey(row, config.rightKeys);
+    return key !== null && leftIndex.has(key);
+  }).length;
+  const unmatchedLeftRows = left.length - matchedLeftRows;
+  const unmatchedRightRows = right.length - matchedRightRows;
+
+  return {
+    matchedLeftRows,
+    unmatchedLeftRows,
+    matchedRightRows,
+    unmatchedRightRows,
+    duplicateLeftKeys: countDuplicateKeys(leftIndex),
+    duplicateRightKeys: countDuplicateKeys(rightIndex),
+    resultRows: matchedPairs
+      + (keepsUnmatched(config.type, 'left') ? unmatchedLeftRows : 0)
+      + (keepsUnmatched(config.type, 'right') ? unmatchedRightRows : 0),
+  };
+};
+
+/**
+ * Joins two datasets into a new one. Rows follow the left file, with each
+ * left row repeated once per matching right row; unmatched right rows come
+ * last. Columns keep their source types. The result has no row IDs yet.
+ */
+export const joinDatasets = (left: DatasetState, right: DatasetState, config: JoinConfig): DatasetState => {
+  const columns = getJoinColumns(left.headers, right.headers, config);
+  const schema: ColumnSchema = {};
+  columns.forEach(column => {
+    const { type, inferredType } = (column.side === 'left' ? left.schema : right.schema)[column.source]
+      || { type: 'text', inferredType: 'text' };
+    schema[column.header] = { type, inferredType };
+  });
+
+  const buildRow = (leftRow: CSVRow | null, rightRow: CSVRow | null): CSVRow => {
+    const row: CSVRow = {};
+    columns.forEach(column => {
+      let value: CellValue | undefined = (column.side === 'left' ? leftRow : rightRow)?.[column.source];
+      if (!leftRow && rightRow && column.rightSource !== undefined) {
+        value = coerceValue(rightRow[column.rightSource], schema[column.header].type);
+      }
+      row[column.header] = value ?? '';
+    });
+    return row;
+  };
+
+  const rightIndex = indexRows(right.data, config.rightKeys);
+  const matchedRight = new Set<CSVRow>();
+  const data: CSVRow[] = [];
+  left.data.forEach(leftRow => {
+    const key = getKey(leftRow, config.leftKeys);
+    const matches = key === null ? undefined : rightIndex.get(key);
+    if (matches) {
+      matches.forEach(rightRow => {
+        matchedRight.add(rightRow);
+        data.push(buildRow(leftRow, rightRow));
+      });
+    } else if (keepsUnmatched(config.type, 'left')) {
+      data.push(buildRow(leftRow, null));
+    }
+  });
+  if (keepsUnmatched(config.type, 'right')) {
+    right.data.forEach(rightRow => {
+      if (!matchedRight.has(rightRow)) {
+        data.push(buildRow(null, rightRow));
+      }
+    });
+  }
+
+  return { data, headers: columns.map(column => column.header), schema };
+};
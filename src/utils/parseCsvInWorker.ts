@@ -0,0 +1,60 @@
+import { CSVRow } from '../types/csv';
+import { ImportOptions, ParsedCSV, ParseProgress, ParseRequest, ParserWorkerMessage } from '../types/parser';
+
+interface ParseHandlers {
+  onProgress?: (progress: ParseProgress) => void;
+  onComplete: (result: ParsedCSV) => void;
+  onError: (message: string) => void;
+}
+
+/**
+ * Parses a CSV file off the main thread. Returns a function that cancels the
+ * parse by terminating the worker.
+ */
+export const parseCsvInWorker = (
+  file: File,
+  options: { importOptions: ImportOptions; preview?: number },
+  handlers: ParseHandlers,
+): (() => void) => {
+  const worker = new Worker(new URL('../workers/csvParser.worker.ts', import.meta.url), { type: 'module' });
+  const rows: CSVRow[] = [];
+
+  worker.onmessage = (event: MessageEvent<ParserWorkerMessage>) => {
+    const message = event.data;
+    switch (message.type) {
+      case 'chunk':
+        for (const row of message.rows) {
+          rows.push(row);
+        }
+        handlers.onProgress?.({
+          rowsParsed: message.rowsParsed,
+          bytesParsed: message.bytesParsed,
+          totalBytes: message.totalBytes,
+        });
+        break;
+      case 'complete':
+        worker.terminate();
+        handlers.onComplete({
+          data: options.preview !== undefined ? rows.slice(0, options.preview) : rows,
+          fields: message.fields,
+          errors: message.errors,
+          truncated: message.truncated,
+        });
+        break;
+      case 'error':
+        worker.terminate();
+        handlers.onError(message.message);
+        break;
+    }
+  };
+
+  worker.onerror = (event) => {
+    worker.terminate();
+    handlers.onError(event.message || 'CSV parser failed to start');
+  };
+
+  const request: ParseRequest = { file, options: options.importOptions, preview: options.preview };
+  worker.postMessage(request);
+
+  return () => worker.terminate();
+};
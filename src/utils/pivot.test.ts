@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { ColumnSchema } from '../types/csv';
+import { PivotConfig } from '../types/pivot';
+import { computePivot, pivotToTable } from './pivot';
+
+const schema: ColumnSchema = {
+  region: { type: 'text', inferredType: 'text' },
+  year: { type: 'integer', inferredType: 'integer' },
+  age: { type: 'integer', inferredType: 'integer' },
+  sales: { type: 'number', inferredType: 'number' },
+};
+const rows = [
+  { region: 'North', year: 2023, age: 24, sales: 10 },
+  { region: 'North', year: 2024, age: 31, sales: 20 },
+  { region: 'South', year: 2023, age: 29, sales: 5 },
+  { region: '', year: 2024, age: 45, sales: 1 },
+];
+
+describe('computePivot', () => {
+  it('computes cells, row totals and grand totals', () => {
+    const config: PivotConfig = {
+      rows: [{ column: 'region', binSize: null }],
+      columns: [{ column: 'year', binSize: null }],
+      values: [{ column: 'sales', fn: 'sum' }, { column: 'sales', fn: 'count' }],
+    };
+    const pivot = computePivot(rows, config, schema);
+
+    expect(pivot.rowKeys).toEqual([['North'], ['South'], ['(empty)']]);
+    expect(pivot.columnKeys).toEqual([['2023'], ['2024']]);
+    expect(pivot.cells).toEqual([
+      [[10, 1], [20, 1], [30, 2]],
+      [[5, 1], [null, null], [5, 1]],
+      [[null, null], [1, 1], [1, 1]],
+    ]);
+    expect(pivot.totals).toEqual([[15, 2], [21, 2], [36, 4]]);
+  });
+
+  it('bins numeric fields, with inclusive labels for integer columns', () => {
+    const byAge = computePivot(rows, {
+      rows: [{ column: 'age', binSize: 10 }],
+      columns: [],
+      values: [{ column: 'sales', fn: 'count' }],
+    }, schema);
+    expect(byAge.rowKeys).toEqual([['20–29'], ['30–39'], ['40–49']]);
+    expect(byAge.cells).toEqual([[[2]], [[1]], [[1]]]);
+
+    const bySales = computePivot(rows, {
+      rows: [{ column: 'sales', binSize: 7.5 }],
+      columns: [],
+      values: [{ column: 'sales', fn: 'count' }],
+    }, schema);
+    expect(bySales.rowKeys).toEqual([['0 to <7.5'], ['7.5 to <15'], ['15 to <22.5']]);
+  });
+
+  it('flattens into rows with a total row', () => {
+    const table = pivotToTable(computePivot(rows, {
+      rows: [],
+      columns: [],
+      values: [{ column: 'sales', fn: 'sum' }],
+    }, schema));
+    expect(table.headers).toEqual(['Rows', 'Sum of sales']);
+    expect(table.data).toEqual([
+      { Rows: 'All', 'Sum of sales': 36 },
+      { Rows: 'Total', 'Sum of sales': 36 },
+    ]);
+  });
+});
@@ -0,0 +1,166 @@
+import { CellValue, ColumnSchema, CSVRow } from '../types/csv';
+import { PivotConfig, PivotField, PivotResult, PivotTable, PivotValue } from '../types/pivot';
+import { AGGREGATE_FUNCTIONS, computeAggregates } from './aggregation';
+import { isEmptyValue, toNumber } from './columnTypes';
+
+export const MAX_PIVOT_COLUMN_KEYS = 50;
+
+export const PIVOT_FUNCTIONS: { value: PivotValue['fn']; label: string }[] = [
+  { value: 'count', label: 'Count' },
+  ...AGGREGATE_FUNCTIONS,
+];
+
+const EMPTY_LABEL = '(empty)';
+const TOTAL_LABEL = 'Total';
+
+const keyCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+const compareKeys = (a: string[], b: string[]) => {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) {
+      // Empty values go last, like a spreadsheet pivot.
+      if (a[i] === EMPTY_LABEL) return 1;
+      if (b[i] === EMPTY_LABEL) return -1;
+      const comparison = keyCollator.compare(a[i], b[i]);
+      if (comparison !== 0) return comparison;
+    }
+  }
+  return 0;
+};
+
+export const createPivotConfig = (): PivotConfig => ({ rows: [], columns: [], values: [] });
+
+export const getPivotColumns = (config: PivotConfig): string[] => [
+  ...config.rows.map(field => field.column),
+  ...config.columns.map(field => field.column),
+  ...config.values.map(value => value.column),
+];
+
+export const prunePivotColumns = (config: PivotConfig, columns: string[]): PivotConfig => ({
+  rows: config.rows.filter(field => columns.includes(field.column)),
+  columns: config.columns.filter(field => columns.includes(field.column)),
+  values: config.values.filter(value => columns.includes(value.column)),
+});
+
+export const renamePivotColumn = (config: PivotConfig, from: string, to: string): PivotConfig => ({
+  rows: config.rows.map(field => (field.column === from ? { ...field, column: to } : field)),
+  columns: config.columns.map(field => (field.column === from ? { ...field, column: to } : field)),
+  values: config.values.map(value => (value.column === from ? { ...value, column: to } : value)),
+});
+
+// Numeric fields with a bin size are bucketed, e.g. ages into "20–29".
+const fieldLabel = (value: CellValue | undefined, field: PivotField, schema: ColumnSchema): string => {
+  if (isEmptyValue(value)) {
+    return EMPTY_LABEL;
+  }
+  const numeric = field.binSize ? toNumber(value) : null;
+  if (field.binSize && numeric !== null) {
+    const start = Math.floor(numeric / field.binSize) * field.binSize;
+    const isIntegerBin = schema[field.column]?.type === 'integer' && Number.isInteger(field.binSize);
+    return isIntegerBin ? `${start}–${start + field.binSize - 1}` : `${start} to <${start + field.binSize}`;
+  }
+  return String(value);
+};
+
+export const describePivotValue = (value: PivotValue): string => {
+  const label = PIVOT_FUNCTIONS.find(option => option.value === value.fn)?.label || value.fn;
+  return `${label} of ${value.column}`;
+};
+
+const aggregateValue = (rows: CSVRow[], value: PivotValue): number | null => {
+  if (value.fn === 'count') {
+    return rows.length;
+  }
+  return computeAggregates(rows, [value.column], [value.fn])[value.column][value.fn] ?? null;
+};
+
+/**
+ * Cross-tabulates rows: one output row per combination of row field values,
+ * one column group per combination of column field values, and a cell per
+ * value field in each group. Row, column and grand totals are included.
+ */
+export const computePivot = (rows: CSVRow[], config: PivotConfig, schema: ColumnSchema): PivotResult => {
+  const rowBuckets = new Map<string, { key: string[]; rows: CSVRow[]; byColumn: Map<string, CSVRow[]> }>();
+  const columnBuckets = new Map<string, { key: string[]; rows: CSVRow[] }>();
+
+  rows.forEach(row => {
+    const rowKey = config.rows.map(field => fieldLabel(row[field.column], field, schema));
+    const columnKey = config.columns.map(field => fieldLabel(row[field.column], field, schema));
+    const rowId = JSON.stringify(rowKey);
+    const columnId = JSON.stringify(columnKey);
+
+    let rowBucket = rowBuckets.get(rowId);
+    if (!rowBucket) {
+      rowBucket = { key: rowKey, rows: [], byColumn: new Map() };
+      rowBuckets.set(rowId, rowBucket);
+    }
+    rowBucket.rows.push(row);
+    const cellRows = rowBucket.byColumn.get(columnId);
+    if (cellRows) {
+      cellRows.push(row);
+    } else {
+      rowBucket.byColumn.set(columnId, [row]);
+    }
+
+    let columnBucket = columnBuckets.get(columnId);
+    if (!columnBucket) {
+      columnBucket = { key: columnKey, rows: [] };
+      columnBuckets.set(columnId, columnBucket);
+    }
+    columnBucket.rows.push(row);
+  });
+
+  const sortedRows = Array.from(rowBuckets.values()).sort((a, b) => compareKeys(a.key, b.key));
+  const allColumns = Array.from(columnBuckets.entries()).sort(([, a], [, b]) => compareKeys(a.key, b.key));
+  const truncated = allColumns.length > MAX_PIVOT_COLUMN_KEYS;
+  const sortedColumns = allColumns.slice(0, MAX_PIVOT_COLUMN_KEYS);
+  const hasColumnFields = config.columns.length > 0;
+
+  const cellsFor = (groups: (CSVRow[] | undefined)[], total: CSVRow[]) => [
+    ...(hasColumnFields ? groups : []).map(groupRows =>
+      config.values.map(value => (groupRows ? aggregateValue(groupRows, value) : null))
+    ),
+    config.values.map(value => aggregateValue(total, value)),
+  ];
+
+  return {
+    rowFields: config.rows.map(field => field.column),
+    columnFields: config.columns.map(field => field.column),
+    values: config.values,
+    rowKeys: sortedRows.map(bucket => bucket.key),
+    columnKeys: hasColumnFields ? sortedColumns.map(([, bucket]) => bucket.key) : [],
+    cells: sortedRows.map(bucket =>
+      cellsFor(sortedColumns.map(([columnId]) => bucket.byColumn.get(columnId)), bucket.rows)
+    ),
+    totals: cellsFor(sortedColumns.map(([, bucket]) => bucket.rows), rows),
+    truncated,
+  };
+};
+
+/**
+ * Flattens a pivot into plain rows and headers, so it can go through the same
+ * exporters as the main grid.
+ */
+export const pivotToTable = (pivot: PivotResult): PivotTable => {
+  const rowHeaders = pivot.rowFields.length > 0 ? pivot.rowFields : ['Rows'];
+  const groupLabels = [...pivot.columnKeys.map(key => key.join(' / ')), TOTAL_LABEL];
+  const valueHeaders = groupLabels.flatMap(group =>
+    pivot.values.map(value => (pivot.columnKeys.length > 0 ? `${group} · ${describePivotValue(value)}` : describePivotValue(value)))
+  );
+  const headers = [...rowHeaders, ...valueHeaders];
+
+  const toRow = (labels: string[], cells: (number | null)[][]): CSVRow => {
+    const row: CSVRow = {};
+    rowHeaders.forEach((header, index) => {
+      row[header] = labels[index] ?? (pivot.rowFields.length === 0 ? 'All' : '');
+    });
+    cells.flat().forEach((cell, index) => {
+      row[valueHeaders[index]] = cell ?? '';
+    });
+    return row;
+  };
+
+  const data = pivot.rowKeys.map((key, index) => toRow(key, pivot.cells[index]));
+  data.push(toRow([TOTAL_LABEL], pivot.totals));
+  return { headers, data };
+};
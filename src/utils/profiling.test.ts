@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { profileColumn } from './profiling';
+
+describe('profileColumn', () => {
+  it('summarizes numbers weighted by their counts', () => {
+    const profile = profileColumn('score', 'integer', new Map([['1', 2], ['4', 1], ['10', 1]]), 6);
+    expect(profile.emptyCount).toBe(2);
+    expect(profile.distinctCount).toBe(3);
+    expect(profile.numeric).toMatchObject({ min: 1, max: 10, mean: 4, median: 2.5 });
+    expect(profile.topValues[0]).toEqual({ value: '1', count: 2 });
+    expect(profile.histogram).toHaveLength(10);
+    expect(profile.histogram.reduce((sum, bin) => sum + bin.count, 0)).toBe(4);
+    expect(profile.mismatch).toBeNull();
+  });
+
+  it('flags values that do not fit a mostly numeric text column', () => {
+    const profile = profileColumn('price', 'text', new Map([['1', 3], ['2', 2], ['n/a', 1]]), 6);
+    expect(profile.numeric?.max).toBe(2);
+    expect(profile.mismatch).toEqual({ expected: 'number', count: 1, examples: ['n/a'] });
+  });
+
+  it('leaves text columns without numeric stats', () => {
+    const profile = profileColumn('name', 'text', new Map([['Ann', 1], ['Bob', 1]]), 2);
+    expect(profile.numeric).toBeNull();
+    expect(profile.histogram).toEqual([]);
+    expect(profile.mismatch).toBeNull();
+  });
+});
@@ -0,0 +1,121 @@
+import { ColumnType } from '../types/csv';
+import { ColumnProfile, HistogramBin, NumericSummary, TypeMismatch } from '../types/profile';
+import { parseValue, toNumber } from './columnTypes';
+
+export const TOP_VALUE_COUNT = 10;
+
+const HISTOGRAM_BINS = 10;
+const MAX_MISMATCH_EXAMPLES = 5;
+// A text column is treated as numeric when at least this share of its
+// non-empty values are numbers.
+const MOSTLY_NUMERIC_SHARE = 0.8;
+
+type WeightedNumber = [value: number, count: number];
+
+const summarize = (values: WeightedNumber[], count: number): NumericSummary => {
+  const sorted = [...values].sort((a, b) => a[0] - b[0]);
+  const mean = sorted.reduce((sum, [value, weight]) => sum + value * weight, 0) / count;
+  const variance = sorted.reduce((sum, [value, weight]) => sum + weight * (value - mean) ** 2, 0) / count;
+
+  // The median is the middle position (or the two middle positions) once
+  // each distinct value is expanded by its count.
+  const valueAt = (position: number) => {
+    let seen = 0;
+    for (const [value, weight] of sorted) {
+      seen += weight;
+      if (position < seen) return value;
+    }
+    return sorted[sorted.length - 1][0];
+  };
+  const median = count % 2 === 1
+    ? valueAt((count - 1) / 2)
+    : (valueAt(count / 2 - 1) + valueAt(count / 2)) / 2;
+
+  return {
+    min: sorted[0][0],
+    max: sorted[sorted.length - 1][0],
+    mean,
+    median,
+    stddev: Math.sqrt(variance),
+  };
+};
+
+const buildHistogram = (values: WeightedNumber[], summary: NumericSummary): HistogramBin[] => {
+  const { min, max } = summary;
+  if (min === max) {
+    return [{ from: min, to: max, count: values.reduce((sum, [, weight]) => sum + weight, 0) }];
+  }
+  const width = (max - min) / HISTOGRAM_BINS;
+  const bins: HistogramBin[] = Array.from({ length: HISTOGRAM_BINS }, (_, i) => ({
+    from: min + i * width,
+    to: i === HISTOGRAM_BINS - 1 ? max : min + (i + 1) * width,
+    count: 0,
+  }));
+  values.forEach(([value, weight]) => {
+    bins[Math.min(HISTOGRAM_BINS - 1, Math.floor((value - min) / width))].count += weight;
+  });
+  return bins;
+};
+
+const findMismatch = (entries: [string, number][], expected: ColumnType): TypeMismatch | null => {
+  const misfits = entries.filter(([value]) => parseValue(value, expected) === null);
+  if (misfits.length === 0) {
+    return null;
+  }
+  return {
+    expected,
+    count: misfits.reduce((sum, [, count]) => sum + count, 0),
+    examples: misfits.slice(0, MAX_MISMATCH_EXAMPLES).map(([value]) => value),
+  };
+};
+
+/**
+ * Profiles a column from its distinct value counts (as kept by
+ * `useColumnValueCounts`), so no pass over the rows is needed.
+ */
+export const profileColumn = (
+  column: string,
+  type: ColumnType,
+  valueCounts: Map<string, number>,
+  totalCount: number,
+): ColumnProfile => {
+  const entries = Array.from(valueCounts.entries());
+  const nonEmptyCount = entries.reduce((sum, [, count]) => sum + count, 0);
+
+  const numbers: WeightedNumber[] = [];
+  let numericCount = 0;
+  entries.forEach(([value, count]) => {
+    const parsed = toNumber(value);
+    if (parsed !== null) {
+      numbers.push([parsed, count]);
+      numericCount += count;
+    }
+  });
+
+  const isNumericType = type === 'number' || type === 'integer';
+  const isMostlyNumeric = type === 'text' && numericCount > 0 && numericCount >= nonEmptyCount * MOSTLY_NUMERIC_SHARE;
+
+  let mismatch: TypeMismatch | null = null;
+  if (type !== 'text') {
+    mismatch = findMismatch(entries, type);
+  } else if (isMostlyNumeric) {
+    mismatch = findMismatch(entries, 'number');
+  }
+
+  const numeric = (isNumericType || isMostlyNumeric) && numericCount > 0 ? summarize(numbers, numericCount) : null;
+
+  return {
+    column,
+    type,
+    totalCount,
+    emptyCount: totalCount - nonEmptyCount,
+    distinctCount: valueCounts.size,
+    numeric,
+    topValues: entries
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, TOP_VALUE_COUNT)
+      .map(([value, count]) => ({ value, count })),
+    histogram: numeric ? buildHistogram(numbers, numeric) : [],
+    mismatch,
+  };
+};
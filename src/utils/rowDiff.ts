@@ -0,0 +1,65 @@
+import { CSVRow } from '../types/csv';
+import { getRowId } from './rowIds';
+
+// Beyond this many changed rows a full rescan is cheaper than patching.
+export const MAX_INCREMENTAL_CHANGES = 1000;
+
+export interface RowDiff {
+  removed: Set<CSVRow>;
+  added: Set<CSVRow>;
+}
+
+/**
+ * Diffs two snapshots of the dataset by row object identity. Rows are never
+ * mutated in place, so an edited row shows up as one removed and one added
+ * object. Returns null when the change is too large or reorders rows, in
+ * which case callers should rebuild from scratch.
+ */
+export const diffRows = (previous: CSVRow[], next: CSVRow[]): RowDiff | null => {
+  const removed = new Set<CSVRow>();
+  const added = new Set<CSVRow>();
+
+  if (previous.length === next.length) {
+    for (let i = 0; i < next.length; i++) {
+      if (previous[i] === next[i]) continue;
+      if (getRowId(previous[i]) !== getRowId(next[i])) return null;
+      removed.add(previous[i]);
+      added.add(next[i]);
+      if (added.size > MAX_INCREMENTAL_CHANGES) return null;
+    }
+    return { removed, added };
+  }
+
+  if (Math.abs(previous.length - next.length) > MAX_INCREMENTAL_CHANGES) {
+    return null;
+  }
+
+  const previousRows = new Set(previous);
+  const nextRows = new Set(next);
+  previous.forEach(row => {
+    if (!nextRows.has(row)) removed.add(row);
+  });
+  next.forEach(row => {
+    if (!previousRows.has(row)) added.add(row);
+  });
+
+  if (added.size > MAX_INCREMENTAL_CHANGES || removed.size > MAX_INCREMENTAL_CHANGES) {
+    return null;
+  }
+  return { removed, added };
+};
+
+// Inserts after any equal elements, matching the stable order of Array.sort.
+export const insertSorted = (rows: CSVRow[], row: CSVRow, compare: (a: CSVRow, b: CSVRow) => number) => {
+  let low = 0;
+  let high = rows.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (compare(rows[middle], row) <= 0) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  rows.splice(low, 0, row);
+};
@@ -0,0 +1,21 @@
+import { CSVRow } from '../types/csv';
+
+// Internal key holding each row's persistent identity. It is never part of
+// `headers`, so it never reaches exported files.
+export const ROW_ID_KEY = '__rowId';
+
+let nextRowId = 1;
+
+export const createRowId = (): number => nextRowId++;
+
+export const getRowId = (row: CSVRow): number => Number(row[ROW_ID_KEY]);
+
+export const withRowIds = (rows: CSVRow[]): CSVRow[] =>
+  rows.map(row => {
+    const existing = row[ROW_ID_KEY];
+    if (typeof existing === 'number') {
+      nextRowId = Math.max(nextRowId, existing + 1);
+      return row;
+    }
+    return { ...row, [ROW_ID_KEY]: createRowId() };
+  });
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { deleteRows, duplicateRows, getRowIdRange, setColumnValue } from './rowOps';
+import { getRowId, withRowIds } from './rowIds';
+
+const data = withRowIds([{ name: 'Ann' }, { name: 'Bob' }, { name: 'Cy' }]);
+const ids = data.map(getRowId);
+
+describe('bulk row operations', () => {
+  it('deletes only the selected rows', () => {
+    expect(deleteRows(data, new Set([ids[0], ids[2]]))).toEqual([data[1]]);
+  });
+
+  it('sets a column on the selected rows and keeps the others unchanged', () => {
+    const result = setColumnValue(data, new Set([ids[1]]), 'name', 'Rob');
+    expect(result.map(row => row.name)).toEqual(['Ann', 'Rob', 'Cy']);
+    expect(result[0]).toBe(data[0]);
+    expect(getRowId(result[1])).toBe(ids[1]);
+  });
+
+  it('inserts copies with new IDs after the originals', () => {
+    const result = duplicateRows(data, new Set([ids[0]]));
+    expect(result.map(row => row.name)).toEqual(['Ann', 'Ann', 'Bob', 'Cy']);
+    expect(new Set(result.map(getRowId)).size).toBe(4);
+  });
+
+  it('selects a range in display order from either direction', () => {
+    expect(getRowIdRange(ids, ids[2], ids[0])).toEqual(ids);
+    expect(getRowIdRange(ids, -1, ids[1])).toEqual([ids[1]]);
+  });
+});
@@ -0,0 +1,26 @@
+import { CellValue, CSVRow } from '../types/csv';
+import { createRowId, getRowId, ROW_ID_KEY } from './rowIds';
+
+export const deleteRows = (data: CSVRow[], rowIds: Set<number>): CSVRow[] =>
+  data.filter(row => !rowIds.has(getRowId(row)));
+
+export const setColumnValue = (data: CSVRow[], rowIds: Set<number>, column: string, value: CellValue): CSVRow[] =>
+  data.map(row => (rowIds.has(getRowId(row)) ? { ...row, [column]: value } : row));
+
+/** Inserts a copy of each row, with a new ID, directly after the original. */
+export const duplicateRows = (data: CSVRow[], rowIds: Set<number>): CSVRow[] =>
+  data.flatMap(row => (rowIds.has(getRowId(row)) ? [row, { ...row, [ROW_ID_KEY]: createRowId() }] : [row]));
+
+/**
+ * Row IDs from `anchor` to `target` inclusive, in display order, for
+ * shift-click range selection. Falls back to just `target` when the anchor
+ * is no longer displayed.
+ */
+export const getRowIdRange = (orderedIds: number[], anchor: number, target: number): number[] => {
+  const start = orderedIds.indexOf(anchor);
+  const end = orderedIds.indexOf(target);
+  if (start === -1 || end === -1) {
+    return [target];
+  }
+  return orderedIds.slice(Math.min(start, end), Math.max(start, end) + 1);
+};
@@ -0,0 +1,25 @@
+import { SavedView } from '../types/filter';
+import { openDatabase, requestToPromise, SAVED_VIEWS_STORE, transactionDone } from './database';
+
+export const listSavedViews = async (): Promise<SavedView[]> => {
+  const db = await openDatabase();
+  const views = await requestToPromise<SavedView[]>(
+    db.transaction(SAVED_VIEWS_STORE, 'readonly').objectStore(SAVED_VIEWS_STORE).getAll()
+  );
+  return views.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Views are keyed by name, so saving under an existing name replaces it.
+export const putSavedView = async (view: SavedView): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(SAVED_VIEWS_STORE, 'readwrite');
+  transaction.objectStore(SAVED_VIEWS_STORE).put(view);
+  await transactionDone(transaction);
+};
+
+export const deleteSavedView = async (name: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(SAVED_VIEWS_STORE, 'readwrite');
+  transaction.objectStore(SAVED_VIEWS_STORE).delete(name);
+  await transactionDone(transaction);
+};
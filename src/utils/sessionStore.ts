@@ -0,0 +1,158 @@
+import { CSVRow, HistoryEntry, HistorySnapshot } from '../types/csv';
+import { RecentFile, StoredHistoryEntry, StoredHistoryState, StoredSession } from '../types/session';
+import {
+  HISTORY_ENTRIES_STORE,
+  openDatabase,
+  RECENT_FILES_STORE,
+  requestToPromise,
+  SESSIONS_STORE,
+  transactionDone,
+} from './database';
+import { getRowId } from './rowIds';
+
+export const MAX_RECENT_FILES = 5;
+
+export const createSessionId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Every entry record of one session; arrays sort after numbers in key order.
+const sessionEntries = (id: string) => IDBKeyRange.bound([id], [id, []]);
+
+// Keeps only the rows that differ from what the earlier records add up to.
+const toStoredEntry = (sessionId: string, entry: HistoryEntry, rows: Map<number, CSVRow>): StoredHistoryEntry => {
+  const rowIds: number[] = [];
+  const changedRows: CSVRow[] = [];
+  entry.state.data.forEach(row => {
+    const rowId = getRowId(row);
+    rowIds.push(rowId);
+    if (rows.get(rowId) !== row) {
+      rows.set(rowId, row);
+      changedRows.push(row);
+    }
+  });
+  return {
+    sessionId,
+    id: entry.id,
+    label: entry.label,
+    timestamp: entry.timestamp,
+    headers: entry.state.headers,
+    schema: entry.state.schema,
+    rowIds,
+    changedRows,
+  };
+};
+
+/** Recent files, most recently updated first. */
+export const listRecentFiles = async (): Promise<RecentFile[]> => {
+  const db = await openDatabase();
+  const files = await requestToPromise<RecentFile[]>(
+    db.transaction(RECENT_FILES_STORE, 'readonly').objectStore(RECENT_FILES_STORE).getAll()
+  );
+  return files.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadSession = async (id: string): Promise<HistorySnapshot | null> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSIONS_STORE, HISTORY_ENTRIES_STORE], 'readonly');
+  const [session, records] = await Promise.all([
+    requestToPromise<StoredSession | undefined>(transaction.objectStore(SESSIONS_STORE).get(id)),
+    requestToPromise<StoredHistoryEntry[]>(transaction.objectStore(HISTORY_ENTRIES_STORE).getAll(sessionEntries(id))),
+  ]);
+  if (!session) {
+    return null;
+  }
+
+  // Records come back in entry ID order, which is the order they were written.
+  const rows = new Map<number, CSVRow>();
+  const entries = new Map<number, HistoryEntry>();
+  const liveIds = new Set(session.entryIds);
+  records.forEach(record => {
+    record.changedRows.forEach(row => rows.set(getRowId(row), row));
+    if (liveIds.has(record.id)) {
+      entries.set(record.id, {
+        id: record.id,
+        label: record.label,
+        timestamp: record.timestamp,
+        state: {
+          data: record.rowIds.map(rowId => rows.get(rowId) as CSVRow),
+          headers: record.headers,
+          schema: record.schema,
+        },
+      });
+    }
+  });
+  if (session.entryIds.some(entryId => !entries.has(entryId))) {
+    throw new Error('The saved session is incomplete');
+  }
+  return {
+    entries: session.entryIds.map(entryId => entries.get(entryId) as HistoryEntry),
+    index: session.index,
+    savedId: session.savedId,
+  };
+};
+
+/**
+ * Writes the session and its recent file record in one transaction, then
+ * drops the oldest sessions beyond MAX_RECENT_FILES. Sessions in
+ * `openSessionIds` are never dropped, since their tabs keep saving on top of
+ * what is stored. Given what earlier saves stored, only history entries added
+ * since then are written, each with just the rows that changed. Without it, or
+ * once entries dropped from the history outnumber the live ones, the session's
+ * records are rewritten from scratch.
+ * `stored` is updated in place and returned; discard it if the save fails.
+ */
+export const saveSession = async (
+  file: RecentFile,
+  history: HistorySnapshot,
+  stored: StoredHistoryState | null,
+  openSessionIds: string[],
+): Promise<StoredHistoryState> => {
+  const db = await openDatabase();
+  const existing = await listRecentFiles();
+  const stale = existing
+    .filter(recent => recent.id !== file.id)
+    .slice(MAX_RECENT_FILES - 1)
+    .filter(recent => !openSessionIds.includes(recent.id));
+
+  const transaction = db.transaction([SESSIONS_STORE, RECENT_FILES_STORE, HISTORY_ENTRIES_STORE], 'readwrite');
+  const sessions = transaction.objectStore(SESSIONS_STORE);
+  const recentFiles = transaction.objectStore(RECENT_FILES_STORE);
+  const historyEntries = transaction.objectStore(HISTORY_ENTRIES_STORE);
+
+  const rewrite = !stored || stored.entryIds.size > history.entries.length * 2;
+  const next: StoredHistoryState = !stored || rewrite ? { entryIds: new Set(), rows: new Map() } : stored;
+  if (rewrite) {
+    historyEntries.delete(sessionEntries(file.id));
+  }
+  history.entries.forEach(entry => {
+    if (!next.entryIds.has(entry.id)) {
+      historyEntries.put(toStoredEntry(file.id, entry, next.rows));
+      next.entryIds.add(entry.id);
+    }
+  });
+
+  const session: StoredSession = {
+    id: file.id,
+    entryIds: history.entries.map(entry => entry.id),
+    index: history.index,
+    savedId: history.savedId,
+  };
+  sessions.put(session);
+  recentFiles.put(file);
+  stale.forEach(recent => {
+    sessions.delete(recent.id);
+    recentFiles.delete(recent.id);
+    historyEntries.delete(sessionEntries(recent.id));
+  });
+  await transactionDone(transaction);
+  return next;
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSIONS_STORE, RECENT_FILES_STORE, HISTORY_ENTRIES_STORE], 'readwrite');
+  transaction.objectStore(SESSIONS_STORE).delete(id);
+  transaction.objectStore(RECENT_FILES_STORE).delete(id);
+  transaction.objectStore(HISTORY_ENTRIES_STORE).delete(sessionEntries(id));
+  await transactionDone(transaction);
+};
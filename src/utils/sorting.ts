@@ -0,0 +1,59 @@
+import { ColumnSchema, CSVRow } from '../types/csv';
+import { EmptyPlacement, SortKey } from '../types/sort';
+import { compareValues, isEmptyValue } from './columnTypes';
+
+/**
+ * Compares rows by each sort key in priority order. Empty cells are placed
+ * before any direction is applied, so they stay first or last even when a
+ * key is descending.
+ */
+export const createRowComparator = (
+  keys: SortKey[],
+  schema: ColumnSchema,
+  emptyPlacement: EmptyPlacement,
+): ((a: CSVRow, b: CSVRow) => number) | null => {
+  if (keys.length === 0) {
+    return null;
+  }
+  const emptyOrder = emptyPlacement === 'first' ? -1 : 1;
+
+  return (a, b) => {
+    for (const { column, direction } of keys) {
+      const aEmpty = isEmptyValue(a[column]);
+      const bEmpty = isEmptyValue(b[column]);
+      if (aEmpty && bEmpty) continue;
+      if (aEmpty) return emptyOrder;
+      if (bEmpty) return -emptyOrder;
+
+      const comparison = compareValues(a[column], b[column], schema[column]?.type || 'text');
+      if (comparison !== 0) {
+        return direction === 'asc' ? comparison : -comparison;
+      }
+    }
+    return 0;
+  };
+};
+
+/**
+ * Next sort keys after a header click. A plain click sorts by that column
+ * alone, toggling direction if it already was the only key; a shift-click adds
+ * the column as the next key, or cycles it through descending and off.
+ */
+export const toggleSortKey = (keys: SortKey[], column: string, additive: boolean): SortKey[] => {
+  const existing = keys.find(key => key.column === column);
+
+  if (!additive) {
+    if (keys.length === 1 && existing) {
+      return [{ column, direction: existing.direction === 'asc' ? 'desc' : 'asc' }];
+    }
+    return [{ column, direction: 'asc' }];
+  }
+
+  if (!existing) {
+    return [...keys, { column, direction: 'asc' }];
+  }
+  if (existing.direction === 'asc') {
+    return keys.map(key => (key.column === column ? { column, direction: 'desc' } : key));
+  }
+  return keys.filter(key => key.column !== column);
+};
@@ -0,0 +1,187 @@
+import {
+  CellValue,
+  ColumnSchema,
+  CSVRow,
+  ValidationIndex,
+  ValidationIssue,
+  ValidationRule,
+  ValidationRuleKind,
+} from '../types/csv';
+import { isEmptyValue } from './columnTypes';
+import { getRowId } from './rowIds';
+
+export const RULE_KINDS: { value: ValidationRuleKind; label: string }[] = [
+  { value: 'required', label: 'Required' },
+  { value: 'unique', label: 'Unique' },
+  { value: 'pattern', label: 'Matches regex' },
+  { value: 'range', label: 'Numeric range' },
+  { value: 'allowedValues', label: 'Allowed values' },
+  { value: 'email', label: 'Email address' },
+  { value: 'url', label: 'URL' },
+];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const createRule = (kind: ValidationRuleKind): ValidationRule => {
+  switch (kind) {
+    case 'pattern':
+      return { kind, severity: 'error', pattern: '' };
+    case 'allowedValues':
+      return { kind, severity: 'error', values: [] };
+    default:
+      return { kind, severity: 'error' };
+  }
+};
+
+export const compilePattern = (pattern: string): RegExp | null => {
+  try {
+    return new RegExp(pattern);
+  } catch {
+    return null;
+  }
+};
+
+const isValidUrl = (text: string): boolean => {
+  try {
+    const url = new URL(text);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+// For each column with a `unique` rule, the rows holding each trimmed value.
+export type UniqueValueIndex = Map<string, Map<string, Set<CSVRow>>>;
+
+export const getUniqueColumns = (headers: string[], schema: ColumnSchema): string[] =>
+  headers.filter(column => schema[column]?.rules?.some(rule => rule.kind === 'unique'));
+
+export const getValueKey = (value: CellValue | undefined): string | null =>
+  isEmptyValue(value) ? null : String(value).trim();
+
+export const indexUniqueValues = (data: CSVRow[], headers: string[], schema: ColumnSchema): UniqueValueIndex => {
+  const index: UniqueValueIndex = new Map();
+  getUniqueColumns(headers, schema).forEach(column => {
+    const rowsByValue = new Map<string, Set<CSVRow>>();
+    data.forEach(row => {
+      const key = getValueKey(row[column]);
+      if (key === null) return;
+      const rows = rowsByValue.get(key);
+      if (rows) {
+        rows.add(row);
+      } else {
+        rowsByValue.set(key, new Set([row]));
+      }
+    });
+    index.set(column, rowsByValue);
+  });
+  return index;
+};
+
+/**
+ * Returns the message for a failed rule, or null when the value passes.
+ * Only `required` looks at empty cells; every other rule skips them.
+ */
+const checkRule = (
+  rule: ValidationRule,
+  value: CellValue | undefined,
+  uniqueValues: Map<string, Set<CSVRow>> | undefined,
+  regex: RegExp | null,
+): string | null => {
+  if (rule.kind === 'required') {
+    return isEmptyValue(value) ? 'Value is required' : null;
+  }
+  if (isEmptyValue(value)) {
+    return null;
+  }
+  const text = String(value).trim();
+
+  switch (rule.kind) {
+    case 'unique':
+      return (uniqueValues?.get(text)?.size || 0) > 1 ? `Duplicate value "${text}"` : null;
+    case 'pattern':
+      if (!rule.pattern || !regex) return null;
+      return regex.test(text) ? null : `Does not match /${rule.pattern}/`;
+    case 'range': {
+      const numeric = typeof value === 'number' ? value : Number(text);
+      if (!Number.isFinite(numeric)) return 'Must be a number';
+      if (rule.min !== undefined && numeric < rule.min) return `Must be at least ${rule.min}`;
+      if (rule.max !== undefined && numeric > rule.max) return `Must be at most ${rule.max}`;
+      return null;
+    }
+    case 'allowedValues':
+      if (rule.values.length === 0) return null;
+      return rule.values.includes(text) ? null : `"${text}" is not an allowed value`;
+    case 'email':
+      return EMAIL_PATTERN.test(text) ? null : 'Not a valid email address';
+    case 'url':
+      return isValidUrl(text) ? null : 'Not a valid http(s) URL';
+  }
+};
+
+/**
+ * Checks one row against every column's rules. `unique` rules look up the
+ * index, so it must already include the row.
+ */
+export const createRowValidator = (headers: string[], schema: ColumnSchema, uniqueValues: UniqueValueIndex) => {
+  const columns = headers
+    .map(column => {
+      const rules = schema[column]?.rules || [];
+      const patterns = rules.map(rule => (rule.kind === 'pattern' ? compilePattern(rule.pattern) : null));
+      return { column, rules, patterns };
+    })
+    .filter(({ rules }) => rules.length > 0);
+
+  return (row: CSVRow): ValidationIssue[] => {
+    const issues: ValidationIssue[] = [];
+    columns.forEach(({ column, rules, patterns }) => {
+      rules.forEach((rule, index) => {
+        const message = checkRule(rule, row[column], uniqueValues.get(column), patterns[index]);
+        if (message) {
+          issues.push({
+            rowId: getRowId(row),
+            column,
+            kind: rule.kind,
+            severity: rule.severity,
+            message,
+          });
+        }
+      });
+    });
+    return issues;
+  };
+};
+
+export const getCellIssues = (
+  byRow: Map<number, ValidationIssue[]>,
+  rowId: number,
+  column: string,
+): ValidationIssue[] | undefined => {
+  const issues = byRow.get(rowId)?.filter(issue => issue.column === column);
+  return issues && issues.length > 0 ? issues : undefined;
+};
+
+/** Totals the issues found in `rows`. */
+export const countRowIssues = (
+  byRow: Map<number, ValidationIssue[]>,
+  rows: CSVRow[],
+): Pick<ValidationIndex, 'errorCount' | 'warningCount'> => {
+  let errorCount = 0;
+  let warningCount = 0;
+  rows.forEach(row => {
+    byRow.get(getRowId(row))?.forEach(issue => {
+      if (issue.severity === 'error') {
+        errorCount += 1;
+      } else {
+        warningCount += 1;
+      }
+    });
+  });
+  return { errorCount, warningCount };
+};
+
+/** Every issue, in the order of the rows they belong to. */
+export const listIssues = (byRow: Map<number, ValidationIssue[]>, rowPositions: Map<number, number>): ValidationIssue[] =>
+  [...byRow.entries()]
+    .sort(([a], [b]) => (rowPositions.get(a) ?? 0) - (rowPositions.get(b) ?? 0))
+    .flatMap(([, issues]) => issues);
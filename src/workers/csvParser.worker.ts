@@ -0,0 +1,49 @@
+import Papa from 'papaparse';
+import { ParseRequest, ParserWorkerMessage } from '../types/parser';
+import { createRecordReader } from '../utils/csvRecords';
+
+const CHUNK_SIZE = 1024 * 1024;
+
+const post = (message: ParserWorkerMessage) => self.postMessage(message);
+
+self.addEventListener('message', (event: MessageEvent<ParseRequest>) => {
+  const { file, options, preview } = event.data;
+  const reader = createRecordReader(options);
+  let chunksRead = 0;
+  const leadingRecords = options.skipRows + (options.hasHeader ? 1 : 0);
+
+  // Rows are streamed back per chunk so the main thread never receives one
+  // giant structured-clone payload at the end.
+  Papa.parse<string[], File>(file, {
+    header: false,
+    skipEmptyLines: false,
+    delimiter: options.delimiter,
+    quoteChar: options.quoteChar,
+    encoding: options.encoding,
+    chunkSize: CHUNK_SIZE,
+    preview: preview !== undefined ? preview + leadingRecords : undefined,
+    chunk: (results) => {
+      chunksRead += 1;
+      const rows = reader.read(results.data, results.errors);
+      post({
+        type: 'chunk',
+        rows,
+        rowsParsed: reader.rowsParsed(),
+        bytesParsed: Math.min(chunksRead * CHUNK_SIZE, file.size),
+        totalBytes: file.size,
+      });
+    },
+    // When streaming, Papa doesn't pass results to `complete`.
+    complete: () => {
+      post({
+        type: 'complete',
+        fields: reader.fields(),
+        errors: reader.issues(),
+        truncated: preview !== undefined && reader.rowsParsed() >= preview,
+      });
+    },
+    error: (error) => {
+      post({ type: 'error', message: error.message });
+    },
+  });
+});